@@ -0,0 +1,28 @@
+#!/usr/bin/env ts-node
+
+import { createDispenser, DeliverySession } from '../main';
+import debug from 'debug';
+import { getConfigFromEnv } from '../utils/envParser';
+
+const debugLog = debug('dispenser:main');
+
+const configuration = getConfigFromEnv();
+debugLog('Configuration: %O', configuration);
+
+const quantity = parseFloat(process.argv[2] || '10');
+
+createDispenser(configuration).then((dispenser) => {
+	const session = new DeliverySession(dispenser, { quantity });
+	session.on('state', (state, previous) => debugLog('state: %s -> %s', previous, state));
+	session.on('progress', (progress) => debugLog('progress: %o', progress));
+
+	session
+		.run()
+		.then((summary) => console.log(summary))
+		.catch((error) => console.error(error))
+		.finally(() => {
+			dispenser.disconnect(() => {
+				debugLog('Disconnected');
+			});
+		});
+});
@@ -1,18 +1,20 @@
 import { ModBusDispenser } from './base/ModBusDispenser';
+import { InvalidStateError } from './errors';
 import { DispenserOptions, TotalizerResponse, VolumeResponse } from './interface/IDispenser';
 import { SerialPort } from 'serialport';
 import { Seneca } from './workflows/GateX';
+import { createNormalizedStatus, DispenserState, NormalizedStatus } from './interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from './interface/DispenserCapabilities';
 import debug from 'debug';
 import { FULL_CUT, LF, buildSlip } from '../utils/printFormat';
 const debugLog = debug('dispenser:GateX');
 export class GateX extends ModBusDispenser {
-	private AuthorizeValveGPIO: number = 26;
 	private kFactor: number;
 	private startTotalizer: TotalizerResponse | undefined;
 
 	private preset: number;
 
-	constructor(socket: Seneca, printer: SerialPort, options: DispenserOptions) {
+	constructor(socket: Seneca, printer: SerialPort | undefined, options: DispenserOptions) {
 		super(socket, printer, options);
 		let { kFactor } = options;
 		if (!kFactor || kFactor < 0) {
@@ -22,6 +24,11 @@ export class GateX extends ModBusDispenser {
 		this.preset = 0;
 	}
 
+	// the solenoid valve is open while the pin is high
+	private get authorizeValvePin(): number {
+		return this.options?.gpio?.pins?.authorization ?? 26;
+	}
+
 	async totalizer() {
 		debugLog('totalizer: %s', 'awaiting connection');
 		const seneca = await this.connection;
@@ -37,7 +44,7 @@ export class GateX extends ModBusDispenser {
 	}
 
 	async readStatus() {
-		return (await this.executeShellScriptAndCheck('scripts/GateX/status.sh')) ? 'true' : 'false';
+		return (await this.gpio.read(this.authorizeValvePin)) ? 'true' : 'false';
 	}
 
 	processTotalizerRes(pulse: any): TotalizerResponse {
@@ -66,6 +73,21 @@ export class GateX extends ModBusDispenser {
 		return this.processTotalizerRes(data);
 	}
 
+	/**
+	 * GateX only knows if the valve is open, a closed valve during a sale means it is suspended
+	 */
+	normalizeStatus(res: string): NormalizedStatus {
+		let state = DispenserState.Idle;
+		if (res.trim() === 'true') {
+			state = DispenserState.Dispensing;
+		} else if (this.startTotalizer) {
+			state = DispenserState.Suspended;
+		}
+		const response = createNormalizedStatus(state, res);
+		debugLog('normalizeStatus: %o', response);
+		return response;
+	}
+
 	isIdle(res: string) {
 		debugLog('isSaleCloseable: %s', 'true');
 		return res.trim() === 'false';
@@ -125,36 +147,28 @@ export class GateX extends ModBusDispenser {
 		return 'GATEX';
 	}
 
-	getExternalPump() {
-		return 'false';
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities({ batchNumbers: true, flowRate: true, onboardPrinter: Boolean(this.printer) });
 	}
 
 	async authorizeSale() {
-		try {
-			if (!this.startTotalizer) {
-				const totalizer = await this.processTotalizerRes(await this.totalizer()); //This will initialize startTotalizer.
-				this.startTotalizer = totalizer;
-			}
-
-			if (!this.startTotalizer) {
-				throw new Error('Totalizer not initialized');
-			}
-
-			this.writeTotalizerToFile(this.startTotalizer);
-			return (await this.executeShellScriptAndCheck('scripts/GateX/authorize.sh')) ? 'true' : 'false';
-		} catch (error) {
-			console.error(error);
-			return 'false';
+		if (!this.startTotalizer) {
+			const totalizer = await this.processTotalizerRes(await this.totalizer()); //This will initialize startTotalizer.
+			this.startTotalizer = totalizer;
 		}
+
+		if (!this.startTotalizer) {
+			throw new InvalidStateError('Totalizer not initialized', { command: 'authorizeSale' });
+		}
+
+		this.writeTotalizerToFile(this.startTotalizer);
+		await this.gpio.write(this.authorizeValvePin, true);
+		return (await this.gpio.read(this.authorizeValvePin)) ? 'true' : 'false';
 	}
 
 	async pumpStop() {
-		try {
-			return (await this.executeShellScriptAndCheck('scripts/GateX/unauthorize.sh')) ? 'true' : 'false';
-		} catch (error) {
-			console.error(error);
-			return 'false';
-		}
+		await this.gpio.write(this.authorizeValvePin, false);
+		return (await this.gpio.read(this.authorizeValvePin)) ? 'false' : 'true';
 	}
 
 	async suspendSale() {
@@ -179,7 +193,7 @@ export class GateX extends ModBusDispenser {
 	}
 
 	pumpStart() {
-		return 'true';
+		throw this.unsupported('pumpStart');
 	}
 
 	readAuth() {
@@ -227,12 +241,12 @@ export class GateX extends ModBusDispenser {
 	}
 
 	calculateVolume(previousTotalizer: TotalizerResponse | undefined, currentTotalizer: TotalizerResponse): VolumeResponse {
-		// Check if timestamps are valid and current timestamp is greater than previous
+		// Check if timestamps are valid and current timestamp is not before previous, a poll right after authorizing can share its millisecond
 		if (
 			!previousTotalizer ||
 			!currentTotalizer.timestamp ||
 			!previousTotalizer.timestamp ||
-			currentTotalizer.timestamp <= previousTotalizer.timestamp
+			currentTotalizer.timestamp < previousTotalizer.timestamp
 		) {
 			debugLog('calculateVolume: %o', { previousTotalizer, currentTotalizer });
 			throw new Error('Invalid data or timestamps not in order'); // Invalid data or timestamps not in order
@@ -245,7 +259,7 @@ export class GateX extends ModBusDispenser {
 		const volumeDifference = currentTotalizer.totalizer - previousTotalizer.totalizer;
 		return {
 			volume: volumeDifference,
-			litersPerMinute: this.toFixedNumber(volumeDifference / timeDifferenceInMinutes, 2),
+			litersPerMinute: timeDifferenceInMinutes > 0 ? this.toFixedNumber(volumeDifference / timeDifferenceInMinutes, 2) : 0,
 		};
 	}
 	printReceipt(printObj: any) {
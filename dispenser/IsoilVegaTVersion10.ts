@@ -2,53 +2,136 @@
 
 import debug from 'debug';
 import { BaseDispenser } from './base/BaseDispenser';
+import { ChecksumError, DispenserError, NakError, PortClosedError, TimeoutError } from './errors';
+import { IsoilVegaTParser } from './parsers/IsoilVegaTParser';
+import { DispenserOptions } from './interface/IDispenser';
+import { ITransport } from './interface/ITransport';
+import { DispenserBus, DispenserBusOptions } from './transport/DispenserBus';
+import { parseIsoilAddress } from '../utils/pumpAddress';
+import { decodeIsoilStatusRecord, IsoilVegaTStatus } from './parsers/IsoilVegaTStatusRecord';
 import { LF, buildSlip } from '../utils/printFormat';
+import { createNormalizedStatus, DispenserState, NormalizedStatus } from './interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from './interface/DispenserCapabilities';
 
-// Framing this printer expects around the slip body.
-const ISOIL_SLIP_PREFIX = '02303031313438313030303930';
+// Framing this printer expects after the print command and around the slip body.
+const ISOIL_SLIP_HEADER = '100090';
 const ISOIL_SLIP_SUFFIX = '0A2020202020';
 const debugLog = debug('dispenser:isoil-vega-t-v10');
+
+/**
+ * STX <address:3> <type> <function:2> [data] <4 spaces> <checksum:2> CR,
+ * the checksum is the byte sum up to it as two hex digits, low digit first.
+ */
+function isoilFrame(address: string, command: string): Buffer {
+	const body = Buffer.from(`\x02${address}${command}    `, 'ascii');
+	const checksum = (body.reduce((acc, byte) => acc + byte, 0) % 256).toString(16).toUpperCase().padStart(2, '0');
+	return Buffer.concat([body, Buffer.from(`${checksum[1]}${checksum[0]}\r`, 'ascii')]);
+}
+
 export class IsoilVegaTVersion10 extends BaseDispenser {
-	private totalizerBuffer = Buffer.from([
-		0x02, 0x30, 0x30, 0x31, 0x30, 0x33, 0x30, 0x30, 0x30, 0x30, 0x20, 0x20, 0x20, 0x20, 0x36, 0x33, 0x0d,
-	]);
-	private read_sale = Buffer.from([0x02, 0x30, 0x30, 0x31, 0x30, 0x33, 0x30, 0x30, 0x30, 0x30, 0x20, 0x20, 0x20, 0x20, 0x36, 0x33, 0x0d]);
-	private transaction_enable = Buffer.from([
-		0x02, 0x30, 0x30, 0x31, 0x30, 0x34, 0x31, 0x31, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39,
-		0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39,
-		0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39,
-		0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39,
-		0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39,
-		0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39, 0x39,
-		0x39, 0x39, 0x39, 0x39, 0x20, 0x20, 0x20, 0x20, 0x39, 0x35, 0x0d,
-	]);
-	private read_preset = Buffer.from([
-		0x02, 0x30, 0x30, 0x31, 0x30, 0x33, 0x30, 0x30, 0x30, 0x30, 0x20, 0x20, 0x20, 0x20, 0x36, 0x33, 0x0d,
-	]);
-	private start = Buffer.from([0x02, 0x30, 0x30, 0x31, 0x31, 0x34, 0x34, 0x20, 0x20, 0x20, 0x20, 0x43, 0x41, 0x0d]);
-	private preset_dummy = Buffer.from([
-		0x02, 0x30, 0x30, 0x31, 0x31, 0x34, 0x32, 0x31, 0x30, 0x30, 0x31, 0x32, 0x33, 0x34, 0x31, 0x31, 0x20, 0x20, 0x20, 0x20, 0x37, 0x36,
-		0x0d,
-	]);
-	private stop = Buffer.from([0x02, 0x30, 0x30, 0x31, 0x31, 0x34, 0x35, 0x31, 0x20, 0x20, 0x20, 0x20, 0x45, 0x44, 0x0d]);
-	private terminate = Buffer.from([0x02, 0x30, 0x30, 0x31, 0x31, 0x34, 0x35, 0x30, 0x20, 0x20, 0x20, 0x20, 0x44, 0x44, 0x0d]);
-	private inbetween_close = Buffer.from([0x02, 0x30, 0x30, 0x31, 0x31, 0x34, 0x36, 0x20, 0x20, 0x20, 0x20, 0x45, 0x41, 0x0d]);
-	private transaction_close = Buffer.from([0x02, 0x30, 0x30, 0x31, 0x30, 0x34, 0x37, 0x20, 0x20, 0x20, 0x20, 0x45, 0x41, 0x0d]);
-	private check_nozzle_totalizer = Buffer.from([
-		0x02, 0x30, 0x30, 0x31, 0x30, 0x33, 0x30, 0x30, 0x30, 0x30, 0x20, 0x20, 0x20, 0x20, 0x36, 0x33, 0x0d,
-	]);
+	// <type> <function:2> [data], framed for this unit's address by frame()
+	private read_status = '030000';
+	private transaction_enable = `0411${'9'.repeat(128)}`;
+	private start = '144';
+	private stop = '1451';
+	private terminate = '1450';
+	private inbetween_close = '146';
+	private transaction_close = '047';
+	private preset = '142';
+	private print = '148';
+	private readonly address: string;
+
+	constructor(socket: ITransport, options: DispenserOptions) {
+		super(socket, options);
+		const address = parseIsoilAddress(options.pumpAddress);
+		if (Number.isNaN(address)) throw new Error(`Invalid Isoil address: ${options.pumpAddress}`);
+		this.address = String(address).padStart(3, '0');
+	}
+
+	/**
+	 * Line shared by several Vega-T units, see IsoilVegaTVersion10.onBus.
+	 * @param connection the RS-485 line
+	 * @param options reopen to recover the line after a USB drop
+	 */
+	static createBus(connection: ITransport, options: Partial<DispenserBusOptions> = {}): DispenserBus {
+		return new DispenserBus(connection, {
+			createParser: () => new IsoilVegaTParser(),
+			addressOf: (frame) => (frame[0] === 0x02 && frame.length > 4 ? parseInt(frame.subarray(1, 4).toString('ascii'), 10) : undefined),
+			...options,
+		});
+	}
+
+	/**
+	 * Unit at options.pumpAddress on a shared bus, its commands interleave with the other units' through one queue.
+	 */
+	static onBus(bus: DispenserBus, options: DispenserOptions): IsoilVegaTVersion10 {
+		return new IsoilVegaTVersion10(bus.channel(parseIsoilAddress(options.pumpAddress)), options);
+	}
+
+	/**
+	 * Request frame for this unit's address.
+	 * @param command <type> <function:2> [data]
+	 */
+	frame(command: string): Buffer {
+		return isoilFrame(this.address, command);
+	}
+
+	/**
+	 * Addresses of the units answering a read on this line. Needs the line to itself,
+	 * a bus channel only sees the replies of its own address.
+	 * @param addresses candidates, 1 to 32 by default
+	 * @param timeoutMs how long to wait for each address
+	 */
+	async scanBus(addresses: number[] = Array.from({ length: 32 }, (_, i) => i + 1), timeoutMs = 300): Promise<number[]> {
+		const found: number[] = [];
+		for (const address of addresses) {
+			await this.write(isoilFrame(String(address).padStart(3, '0'), this.read_status), 'scanBus');
+			// a slow unit's reply to the previous address can still come in, wait out the window for this one
+			const deadline = Date.now() + timeoutMs;
+			while (Date.now() < deadline) {
+				try {
+					const res: string = await this.dispenserResponse(deadline - Date.now());
+					const from = parseInt(Buffer.from(res, 'hex').subarray(1, 4).toString('ascii'), 10);
+					if (from === address) {
+						found.push(address);
+						break;
+					}
+					debugLog('scanBus: ignoring a late reply from %d while scanning %d', from, address);
+				} catch (error) {
+					if (error instanceof TimeoutError) break;
+					if (!(error instanceof DispenserError) || error instanceof PortClosedError) throw error;
+					debugLog('scanBus: unreadable reply while scanning %d: %s', address, error.message);
+					// a damaged frame may be the late one, this address can still answer
+					if (!(error instanceof ChecksumError)) break;
+				}
+			}
+		}
+		debugLog('scanBus: %O', found);
+		return found;
+	}
 
 	// elockStatus() {
 	//     debugLog("elockStatus", "Lock_Status");
 	//     this.connection.send('Lock_Status');
 	// }
 
+	protected createParser() {
+		return new IsoilVegaTParser({ interval: this.options?.interByteTimeoutInterval });
+	}
+
+	/* STX ... <checksum> CR, byte sum modulo 256 as two hex digits, low digit first */
+	verifyFrame(frame: Buffer) {
+		if (frame.length < 4 || frame[0] !== 0x02 || frame[frame.length - 1] !== 0x0d) return true;
+		const sum = (frame.subarray(0, -3).reduce((acc, byte) => acc + byte, 0) % 256).toString(16).toUpperCase().padStart(2, '0');
+		return frame.subarray(-3, -1).toString('ascii') === sum[1] + sum[0];
+	}
+
 	checkType() {
 		return 'ISOILVEGATV10';
 	}
 
-	getExternalPump() {
-		return 'false';
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities({ presetByVolume: true, pumpStart: true, onboardPrinter: true, batchNumbers: true, flowRate: true });
 	}
 
 	// elockUnlock() {
@@ -68,195 +151,114 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 
 	async totalizer() {
 		debugLog('totalizer: %s', 'Read_Totalizer');
-		await this.write(this.totalizerBuffer, 'totalizer');
+		await this.write(this.frame(this.read_status), 'totalizer');
+		return await this.dispenserResponse();
 	}
 
 	async readPreset() {
 		debugLog('readPreset: %s', 'Read_Status');
-		await this.write(this.check_nozzle_totalizer, 'readPreset'); // same command to get data on isoil
+		await this.write(this.frame(this.read_status), 'readPreset'); // same command to get data on isoil
+		return await this.dispenserResponse();
 	}
 
 	async readSale() {
 		debugLog('readSale: %s', 'Read_Status');
-		await this.write(this.check_nozzle_totalizer, 'readSale'); // same command to get data on isoil
+		await this.write(this.frame(this.read_status), 'readSale'); // same command to get data on isoil
+		return await this.dispenserResponse();
 	}
 
 	async readStatus() {
 		debugLog('readStatus: %s', 'Read_Status');
 		if (!this.connection.isOpen) return '';
-		await this.write(this.check_nozzle_totalizer, 'readStatus'); // response needs some statuses to be hardcoded .. will see
+		await this.write(this.frame(this.read_status), 'readStatus'); // response needs some statuses to be hardcoded .. will see
+		return await this.dispenserResponse();
 	}
 
 	switchToRemote() {
-		debugLog('switchToRemote: %s', 'Go_Remote');
-		//TBD        this.connection.send('Go_Remote');
+		throw this.unsupported('switchToRemote');
 	}
 
 	switchToLocal() {
-		debugLog('switchToLocal: %s', 'Go_Local');
-		//TBD        this.connection.send('Go_Local');
+		throw this.unsupported('switchToLocal');
 	}
 
 	async pumpStart() {
 		debugLog('startPump: %s', 'Pump_Start');
-		await this.write(this.transaction_enable, 'pumpStart');
+		await this.write(this.frame(this.transaction_enable), 'pumpStart');
+		return await this.dispenserResponse();
 	}
 
 	async pumpStop() {
 		debugLog('stopPump: %s', 'Pump_Stop');
-		await this.write(this.terminate, 'pumpStop');
-		await this.delay(300);
-		await this.write(this.inbetween_close, 'pumpStop');
+		await this.confirm(this.frame(this.terminate), 'pumpStop');
 		await this.delay(300);
+		await this.write(this.frame(this.inbetween_close), 'pumpStop');
+		return await this.dispenserResponse();
 	}
 
 	async authorizeSale() {
 		debugLog('authorizeSale: %s', 'Start');
-		await this.write(this.start, 'authorizeSale');
+		await this.write(this.frame(this.start), 'authorizeSale');
+		return await this.dispenserResponse();
 	}
 
 	async setPreset(quantity: number) {
 		debugLog('setPreset: %s', `Preset_QTY=${quantity}`);
-		await this.sendPreset(quantity);
+		return await this.sendPreset(quantity);
 	}
 
+	/**
+	 * Preset in whole litres, 0 clears it.
+	 */
 	async sendPreset(quantity: number) {
-		let J = 0,
-			K = 0,
-			L = 0,
-			P = 0;
-		const set: number = Math.floor(quantity);
-		if (set < 10) {
-			J = 0;
-			K = 0;
-			L = 0;
-			P = set;
-		}
-		if (set > 9 && set < 100) {
-			J = 0;
-			K = 0;
-			L = Math.floor(set / 10);
-			P = set % 10;
-		}
-		if (set > 99 && set < 1000) {
-			J = 0;
-			K = Math.floor(set / 100);
-			L = Math.floor((set / 10) % 10);
-			P = set % 10;
-		}
-		if (set > 999 && set < 10000) {
-			J = Math.floor(set / 1000);
-			K = Math.floor((set / 100) % 10);
-			L = Math.floor((set / 10) % 10);
-			P = set % 10;
-		}
-
-		const one: number = 0x30 + J;
-		const two: number = 0x30 + K;
-		const three: number = 0x30 + L;
-		const four: number = 0x30 + P;
-		const BCC: number[] = [
-			0x02,
-			0x30,
-			0x30,
-			0x31,
-			0x31,
-			0x34,
-			0x32,
-			0x31,
-			0x30,
-			0x30,
-			one,
-			two,
-			three,
-			four,
-			0x31,
-			0x31,
-			0x20,
-			0x20,
-			0x20,
-			0x20,
-		];
-		const BCC_SIZE: number = 20;
-
-		let checksum: number = 0;
-		for (let i = 0; i < BCC_SIZE; i++) {
-			checksum += BCC[i];
-		}
-		checksum %= 256;
-
-		const checksumHex: string = checksum.toString(16).toUpperCase().padStart(2, '0');
-		const checksum1: number = checksumHex.charCodeAt(0);
-		const checksum2: number = checksumHex.charCodeAt(1);
+		const litres = Math.floor(quantity);
+		if (!(litres >= 0 && litres <= 9999)) throw new DispenserError(`Isoil preset must be 0 to 9999 litres, got ${quantity}`, { command: 'sendPreset' });
 
-		const volume: number[] = [
-			0x02,
-			0x30,
-			0x30,
-			0x31,
-			0x31,
-			0x34,
-			0x32,
-			0x31,
-			0x30,
-			0x30,
-			one,
-			two,
-			three,
-			four,
-			0x31,
-			0x31,
-			0x20,
-			0x20,
-			0x20,
-			0x20,
-			checksum2,
-			checksum1,
-			0x0d,
-		];
-
-		// Uncomment to print volume array
-		// for (let i = 0; i < 23; i++) {
-		//     console.log(volume[i].toString(16).padStart(2, '0'));
-		// }
-
-		// Call write_command with volume array
-		// write_command(volume);
-		// Assuming dispencerSerial is accessible
-		await this.write(Buffer.from(volume), 'sendPreset');
+		await this.write(this.frame(`${this.preset}100${String(litres).padStart(4, '0')}11`), 'sendPreset');
+		return await this.dispenserResponse();
 	}
 
 	async cancelPreset() {
 		debugLog('cancelPreset: %s', 'Cancel_Preset');
-		await this.sendPreset(0.0);
+		return await this.sendPreset(0.0);
 	}
 
 	async suspendSale() {
 		debugLog('suspendSale: %s', 'Stop');
-		await this.write(this.stop, 'suspendSale');
+		await this.write(this.frame(this.stop), 'suspendSale');
+		return await this.dispenserResponse();
 	}
 
 	async resumeSale() {
 		debugLog('resumeSale: %s', 'Resume_Sale');
-		await this.write(this.terminate, 'resumeSale');
-		await this.delay(300);
-		await this.write(this.start, 'resumeSale');
+		await this.confirm(this.frame(this.terminate), 'resumeSale');
 		await this.delay(300);
+		await this.write(this.frame(this.start), 'resumeSale');
+		return await this.dispenserResponse();
 	}
 
 	async clearSale() {
 		debugLog('clearSale: %s', 'Clear_Sale');
-		await this.write(this.transaction_close, 'clearSale');
+		await this.write(this.frame(this.transaction_close), 'clearSale');
+		return await this.dispenserResponse();
 	}
 
-	hasExternalPump() {
-		debugLog('hasExternalPump: %s', 'External_Pump');
-		return 'false';
+	async readAuthorization() {
+		debugLog('readAuthorization: %s', 'Read_Authorization');
+		await this.write(this.frame(this.read_status), 'readAuthorization'); // same command to get data on isoil
+		return await this.dispenserResponse();
 	}
 
-	readAuthorization() {
-		debugLog('readAuthorization: %s', 'Read_Authorization');
-		this.write(this.check_nozzle_totalizer, 'readAuthorization'); // same command to get data on isoil
+	/**
+	 * First step of a two frame command, the second one is only sent once the dispenser accepted this one.
+	 * @throws NakError when the dispenser refused it
+	 */
+	private async confirm(buffer: Buffer, command: string) {
+		await this.write(buffer, command);
+		const res = await this.dispenserResponse();
+		debugLog('%s step: %s', command, res);
+		this.processCommand(res);
+		return res;
 	}
 
 	processLegacyCommand(res: string) {
@@ -264,7 +266,7 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 
 		if (!res.includes('59')) {
 			debugLog('processLegacyCommand: %s', 'Command failed! check for status');
-			throw Error('Command failed! check for status');
+			throw new NakError('Command failed! check for status', { frame: res });
 		}
 
 		debugLog('processLegacyCommand: %s', 'Command success');
@@ -276,7 +278,7 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 
 		if (response.length < 2) {
 			debugLog('processResponseRaw: %s', 'Incompatible response');
-			throw new Error('Incompatible response');
+			throw new DispenserError('Incompatible response', { frame: response.join('') });
 		}
 
 		const exponent = this.hex2a(this.cutStringFromLast(response[0], exponentCut, true));
@@ -305,179 +307,106 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 		debugLog('processCommand: %s', res);
 		if (!res.slice(0, -8).endsWith('3030')) {
 			debugLog('processCommand: %s', 'Command failed! check for status');
-			throw Error('Command failed! check for status');
+			throw new NakError('Command failed! check for status', { frame: res });
 		}
 
 		debugLog('processCommand: %s', 'Command success');
 		return true;
 	}
 
+	/**
+	 * Every field of a status record, the process* methods below read from it.
+	 */
+	decodeStatus(res: string): IsoilVegaTStatus {
+		const status = decodeIsoilStatusRecord(res);
+		debugLog('decodeStatus: %o', status);
+		return status;
+	}
+
 	processRequestOfStartDelivery(res: string) {
-		debugLog('processRequestOfStartDelivery: %s', res);
-
-		if (res.slice(0, 38).endsWith('30')) {
-			debugLog('processRequestOfStartDelivery: %s', 'Not present');
-			return 'Not present';
-		} else if (res.slice(0, 38).endsWith('31')) {
-			debugLog('processRequestOfStartDelivery: %s', 'Request present');
-			return 'Request present';
-		} else {
-			debugLog('processRequestOfStartDelivery: %s', 'Command failed! check for status');
-			return Error('Command failed! check for status');
-		}
+		return this.decodeStatus(res).requestOfStartDelivery ? 'Request present' : 'Not present';
 	}
 
 	processStatusOfRemoteStop(res: string) {
-		debugLog('processStatusOfRemoteStop: %s', res);
-		if (res.slice(0, -34).endsWith('30')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Not active');
-			return 'Not active';
-		} else if (res.slice(0, -34).endsWith('31')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Active');
-			return 'Active';
-		} else {
-			debugLog('processStatusOfRemoteStop: %s', 'Command failed! check for status');
-			return Error('Command failed! check for status');
-		}
+		return this.decodeStatus(res).remoteStop ? 'Active' : 'Not active';
 	}
 
 	processStatusOfLocalPrinting(res: string) {
-		debugLog('processStatusOfRemoteStop: %s', res);
-		if (res.slice(0, -526).endsWith('30')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Printer not enabled');
-			return 'Printer not enabled';
-		} else if (res.slice(0, -526).endsWith('31')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Printer ON LINE');
-			return 'Printer ON LINE';
-		} else if (res.slice(0, -526).endsWith('32')) {
-			debugLog('processStatusOfRemoteStop: %s', 'No paper');
-			return 'No paper';
-		} else if (res.slice(0, -526).endsWith('33')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Printer OFF LINE');
-			return 'Printer OFF LINE';
-		} else if (res.slice(0, -526).endsWith('34')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Printer BUSY');
-			return 'Printer BUSY';
-		} else if (res.slice(0, -526).endsWith('35')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Printing in progress');
-			return 'Printing in progress';
-		} else if (res.slice(0, -526).endsWith('36')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Print aborted');
-			return 'Print aborted';
-		} else if (res.slice(0, -526).endsWith('37')) {
-			debugLog('processStatusOfRemoteStop: %s', 'Data not available');
-			return 'Data not available';
-		} else {
-			debugLog('processStatusOfRemoteStop: %s', 'Command failed! check for status');
-			return Error('Command failed! check for status');
-		}
+		return this.decodeStatus(res).printerState;
 	}
 
 	processStatusOfBatch(res: string) {
-		debugLog('processStatusOfBatch: %s', res);
-		if (res.slice(0, -32).endsWith('30')) {
-			debugLog('processStatusOfBatch: %s', 'Batch not active');
-			return 'Batch not active';
-		} else if (res.slice(0, -32).endsWith('31')) {
-			debugLog('processStatusOfBatch: %s', 'Delivery in progress');
-			return 'Delivery in progress';
-		} else if (res.slice(0, -32).endsWith('32')) {
-			debugLog('processStatusOfBatch: %s', 'Delivery stopped');
-			return 'Delivery stopped';
-		} else if (res.slice(0, -32).endsWith('33')) {
-			debugLog('processStatusOfBatch: %s', 'Delivery completed');
-			return 'Request of store data of batch';
-		} else {
-			debugLog('processStatusOfBatch: %s', 'Command failed! check for status');
-			throw Error('Command failed! check for status');
-		}
+		return this.decodeStatus(res).batchState;
 	}
 
 	processFlowOfProduct(res: string) {
-		debugLog('processFlowOfProduct: %s', res);
-		if (res.slice(0, -30).endsWith('30')) {
-			debugLog('processFlowOfProduct: %s', 'No flow');
-			return 'No flow';
-		} else if (res.slice(0, -30).endsWith('31')) {
-			debugLog('processFlowOfProduct: %s', 'Flow in progress');
-			return 'flow in pogress';
-		} else {
-			debugLog('processFlowOfProduct: %s', 'Command failed! check for status');
-			return Error('Command failed! check for status');
-		}
+		return this.decodeStatus(res).flowing ? 'flow in pogress' : 'No flow';
 	}
+
 	processStatusOfStopBatch(res: string) {
-		debugLog('processStatusOfStopBatch: %s', res);
-		if (res.slice(0, -28).endsWith('30')) {
-			debugLog('processStatusOfStopBatch: %s', 'No stop');
-			return 'No stop';
-		} else if (res.slice(0, -28).endsWith('31')) {
-			debugLog('processStatusOfStopBatch: %s', 'Stop by operator');
-			return 'Stop by operator';
-		} else if (res.slice(0, -28).endsWith('32')) {
-			debugLog('processStatusOfStopBatch: %s', 'Stop by remote');
-			return 'Stop for faulting of power supply';
-		} else if (res.slice(0, -28).endsWith('34')) {
-			debugLog('processStatusOfStopBatch: %s', 'Stop by permissive absence');
-			return 'Stop by permissive absence';
-		} else if (res.slice(0, -28).endsWith('35')) {
-			debugLog('processStatusOfStopBatch: %s', 'Stop by system alarm');
-			return 'Stop by system alarm';
-		} else if (res.slice(0, -28).endsWith('36')) {
-			debugLog('processStatusOfStopBatch: %s', 'Stop by meter alarm');
-			return 'Stop by meter alarm';
-		} else if (res.slice(0, -28).endsWith('37')) {
-			debugLog('processStatusOfStopBatch: %s', 'Stop by weight & measure switch absence');
-			return 'Stop by weight & measure switch absence';
-		} else if (res.slice(0, -28).endsWith('38')) {
-			debugLog('processStatusOfStopBatch: %s', 'Remote to local commutation');
-			return 'Remote to local commutation';
-		} else {
-			debugLog('processStatusOfStopBatch: %s', 'Command failed! check for status');
-			return Error('Command failed! check for status');
-		}
+		return this.decodeStatus(res).stopReason;
 	}
 
 	processStatus(res: string) {
 		debugLog('processStatus: %s', res);
+		const status = this.decodeStatus(res);
 
 		const response = {
-			requestOfStartDelivery: this.processRequestOfStartDelivery(res),
-			remoteStop: this.processStatusOfRemoteStop(res),
-			statusOfBatch: this.processStatusOfBatch(res),
-			flowOfProduct: this.processFlowOfProduct(res),
-			localPrinting: this.processStatusOfLocalPrinting(res),
-			stopOfBatch: this.processStatusOfStopBatch(res),
+			requestOfStartDelivery: status.requestOfStartDelivery ? 'Request present' : 'Not present',
+			remoteStop: status.remoteStop ? 'Active' : 'Not active',
+			statusOfBatch: status.batchState,
+			flowOfProduct: status.flowing ? 'flow in pogress' : 'No flow',
+			localPrinting: status.printerState,
+			stopOfBatch: status.stopReason,
 		};
 
 		debugLog('processStatus: %o', response);
 		return response;
 	}
 
-	processRawReadStatus(res: string) {
-		debugLog('processRawReadStatus: %s', res);
+	normalizeStatus(res: string): NormalizedStatus {
+		debugLog('normalizeStatus: %s', res);
+		if (!res) {
+			return createNormalizedStatus(DispenserState.Offline, res);
+		}
+
+		const status = this.decodeStatus(res);
+		const errors = status.alarms;
+
+		let state = DispenserState.Unknown;
+		if (errors.systemAlarm || errors.meterAlarm) {
+			state = DispenserState.Error;
+		} else if (status.batchState == 'Delivery in progress') {
+			if (status.flowing) {
+				state = DispenserState.Dispensing;
+			} else if (status.requestOfStartDelivery) {
+				state = DispenserState.Suspended;
+			} else {
+				state = DispenserState.Authorized;
+			}
+		} else if (status.batchState == 'Delivery stopped') {
+			state = DispenserState.Suspended;
+		} else if (status.batchState == 'Request of store data of batch') {
+			state = DispenserState.Completed;
+		} else if (status.batchState == 'Batch not active') {
+			state = status.requestOfStartDelivery ? DispenserState.Calling : DispenserState.Idle;
+		}
 
-		const response = this.hex2a(res)
-			.split(' ')
-			.filter((e) => {
-				return e ? true : false;
-			});
-		debugLog('processRawReadStatus: %o', response);
+		const response = createNormalizedStatus(state, this.processStatus(res), { errors });
+		debugLog('normalizeStatus: %o', response);
 		return response;
 	}
 
 	processTotalizer(res: string) {
-		debugLog('processTotalizer: %s', res);
-		const response = parseFloat(this.processRawReadStatus(res)[7].replace(',', '.'));
-		debugLog('processTotalizer: %o', response);
-		return response;
+		return this.decodeStatus(res).totalizer;
 	}
 
 	processTotalizerWithBatch(res: string) {
 		debugLog('processTotalizerWithBatch: %s', res);
+		const status = this.decodeStatus(res);
 		const response = {
-			totalizer: parseFloat(this.processRawReadStatus(res)[7].replace(',', '.')),
-			batchNumber: this.processBatchNumber(res) + 1, // called before pump start.. so +1
+			totalizer: status.totalizer,
+			batchNumber: status.batchNumber + 1, // called before pump start.. so +1
 			timestamp: Date.now(),
 		};
 		debugLog('processTotalizerWithBatch: %o', response);
@@ -485,38 +414,23 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 	}
 
 	processReadSale(res: string) {
-		debugLog('processReadSale: %s', res);
-		const response = parseFloat(this.processRawReadStatus(res)[12].replace(',', '.'));
-		debugLog('processReadSale: %o', response);
-		return response;
+		return this.decodeStatus(res).volume;
 	}
 
 	processReadPreset(res: string) {
-		debugLog('processReadPreset: %s', res);
-		const response = parseFloat(this.processRawReadStatus(res)[11].slice(0, -2));
-		debugLog('processReadPreset: %o', response);
-		return response;
+		return this.decodeStatus(res).preset;
 	}
 
 	processFlowRate(res: string) {
-		debugLog('processFlowRate: %s', res);
-		const response = parseInt(this.hex2a(res.slice(-82, -70)));
-		debugLog('processFlowRate: %o', response);
-		return response;
+		return this.decodeStatus(res).flowRate;
 	}
 
 	processAverageFlowRate(res: string) {
-		debugLog('processAverageFlowRate: %s', res);
-		const response = parseInt(this.hex2a(res.slice(-70, -58)));
-		debugLog('processAverageFlowRate: %o', response);
-		return response;
+		return this.decodeStatus(res).averageFlowRate;
 	}
 
 	processBatchNumber(res: string) {
-		debugLog('processBatchNumber: %s', res);
-		const response = parseInt(this.hex2a(res.slice(242, 254)));
-		debugLog('processBatchNumber: %o', response);
-		return response;
+		return this.decodeStatus(res).batchNumber;
 	}
 
 	hasChecksBeforePumpStart() {
@@ -536,30 +450,25 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 		return true;
 	}
 
-	isReadyForPreset() {
-		debugLog('isReadyForPreset: %s', 'true');
-		return true;
+	isReadyForPreset(res: string) {
+		const status = this.decodeStatus(res);
+		debugLog('isReadyForPreset: %s', status.batchState);
+		return status.batchState === 'Batch not active';
 	}
 
-	isNozzleOnHook() {
-		debugLog('isNozzleOnHook: %s', 'true');
-		return true;
+	isNozzleOnHook(): boolean {
+		throw this.unsupported('isNozzleOnHook');
 	}
 
-	isNozzleOffHook() {
-		debugLog('isNozzleOffHook: %s', 'true');
-		return true;
+	isNozzleOffHook(): boolean {
+		throw this.unsupported('isNozzleOffHook');
 	}
 
 	isOnline(res: string): boolean {
 		debugLog('isOnline: %s', res);
-		const readStatuses = this.processRawReadStatus(res);
-		if (readStatuses.length > 0) {
-			debugLog('isOnline: %s', 'true');
-			return true;
-		}
-		debugLog('isOnline: %s', 'false');
-		return false;
+		if (!res) return false;
+		this.decodeStatus(res); // a damaged record throws
+		return true;
 	}
 
 	isPresetAvailable(): boolean {
@@ -621,9 +530,10 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 		return false;
 	}
 
-	isSaleCloseable() {
-		debugLog('isSaleCloseable: %s', 'true');
-		return true;
+	isSaleCloseable(res: string) {
+		const status = this.decodeStatus(res);
+		debugLog('isSaleCloseable: %s, flowing %s', status.batchState, status.flowing);
+		return !status.flowing && status.batchState !== 'Delivery in progress';
 	}
 
 	isSaleSuspended(res: string) {
@@ -647,35 +557,17 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 	 */
 	isOrderComplete(res: string, quantity: number) {
 		debugLog('isOrderComplete: %s', res);
-		const readsale = this.processReadSale(res);
-		const totalizer = this.processTotalizer(res);
-		const status = this.processStatus(res);
-
-		if (readsale > quantity - 1) {
-			const response = {
-				status: true,
-				state: status,
-				percentage: this.toFixedNumber((readsale / quantity) * 100.0, 2),
-				currentFlowRate: this.processFlowRate(res),
-				averageFlowRate: this.processAverageFlowRate(res),
-				batchNumber: this.processBatchNumber(res),
-				totalizer,
-				dispensedQty: this.toFixedNumber(readsale, 2),
-			};
-
-			debugLog('isOrderComplete: %o', response);
-			return response;
-		}
+		const status = this.decodeStatus(res);
 
 		const response = {
-			status: false,
-			state: status,
-			percentage: this.toFixedNumber((readsale / quantity) * 100.0, 2),
-			currentFlowRate: this.processFlowRate(res),
-			averageFlowRate: this.processAverageFlowRate(res),
-			batchNumber: this.processBatchNumber(res),
-			totalizer,
-			dispensedQty: this.toFixedNumber(readsale, 2),
+			status: status.volume > quantity - 1,
+			state: this.processStatus(res),
+			percentage: this.toFixedNumber((status.volume / quantity) * 100.0, 2),
+			currentFlowRate: status.flowRate,
+			averageFlowRate: status.averageFlowRate,
+			batchNumber: status.batchNumber,
+			totalizer: status.totalizer,
+			dispensedQty: this.toFixedNumber(status.volume, 2),
 		};
 
 		debugLog('isOrderComplete: %o', response);
@@ -685,7 +577,8 @@ export class IsoilVegaTVersion10 extends BaseDispenser {
 	printReceipt(printObj: any) {
 		debugLog('printReceipt: %o', printObj);
 
-		const recieptString = `${ISOIL_SLIP_PREFIX}${buildSlip(printObj).join(LF)}${ISOIL_SLIP_SUFFIX}`;
+		const prefix = Buffer.from(`\x02${this.address}${this.print}${ISOIL_SLIP_HEADER}`, 'ascii').toString('hex');
+		const recieptString = `${prefix}${buildSlip(printObj).join(LF)}${ISOIL_SLIP_SUFFIX}`;
 		debugLog('printReceipt: %s', `${recieptString}`);
 		return this.printOrder(recieptString);
 	}
@@ -1,5 +1,9 @@
 import debug from 'debug';
 import { BaseDispenser } from './base/BaseDispenser';
+import { ChecksumError, DispenserError, NakError } from './errors';
+import { NeogiParser } from './parsers/NeogiParser';
+import { createNormalizedStatus, DispenserState, NormalizedStatus, NozzleState } from './interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from './interface/DispenserCapabilities';
 import { TotalizerResponse } from './interface/IDispenser';
 
 const debugLog = debug('dispenser:Neogi');
@@ -15,7 +19,17 @@ export class Neogi extends BaseDispenser {
 	private readonly cmd_clearSale = Buffer.from('CT\r', 'ascii');
 	private readonly cmd_switchToRemote = Buffer.from('DM\r', 'ascii');
 	private readonly cmd_switchToLocal = Buffer.from('AM\r', 'ascii');
-	private readonly nozzleStatusScript = 'scripts/Neogi/check_status.sh';
+
+	protected createParser() {
+		return new NeogiParser({ interval: this.options?.interByteTimeoutInterval });
+	}
+
+	/* only data frames carry a checksum, over the content and the closing '#' */
+	verifyFrame(frame: Buffer) {
+		const match = frame.toString('ascii').match(/^#(.+?#)(\d{2})%$/);
+		if (!match) return true;
+		return this.calculateChecksum(match[1]) === match[2];
+	}
 
 	/**
 	 * Calculate checksum for Neogi protocol
@@ -64,7 +78,7 @@ export class Neogi extends BaseDispenser {
 		// Data reply format with checksum: #<CMD><DATA>#<CHECKSUM>%
 		const match = ascii.match(/#(.+?)#(\d{2})%/); // \d{2} for decimal digits
 		if (!match) {
-			throw new Error(`Invalid response format: ${ascii}`);
+			throw new DispenserError(`Invalid response format: ${ascii}`, { frame: res });
 		}
 
 		const content = match[1];
@@ -84,7 +98,9 @@ export class Neogi extends BaseDispenser {
 				calculatedChecksum,
 				checksum
 			);
-			throw new Error(`Checksum validation failed. Expected: ${calculatedChecksum}, Got: ${checksum}, Content: ${content}`);
+			throw new ChecksumError(`Checksum validation failed. Expected: ${calculatedChecksum}, Got: ${checksum}, Content: ${content}`, {
+				frame: res,
+			});
 		}
 
 		debugLog('parseResponse - Data reply with valid checksum');
@@ -153,12 +169,30 @@ export class Neogi extends BaseDispenser {
 
 	async isNozzleOnHook() {
 		debugLog('isNozzleOnHook');
-		return (await this.executeShellScriptAndCheck(this.nozzleStatusScript)) ? 'true' : 'false';
+		return (await this.readNozzleSwitch()) ? 'true' : 'false';
 	}
 
 	async isNozzleOffHook() {
 		debugLog('isNozzleOffHook');
-		return (await this.executeShellScriptAndCheck(this.nozzleStatusScript)) ? 'false' : 'true';
+		return (await this.readNozzleSwitch()) ? 'false' : 'true';
+	}
+
+	// the nozzle switch pulls its pin high while the nozzle is on hook
+	private async readNozzleSwitch(): Promise<boolean> {
+		const pin = this.options.gpio?.pins?.nozzle ?? 26;
+		await this.gpio.input(pin);
+		return await this.gpio.read(pin);
+	}
+
+	/**
+	 * Neogi reports the nozzle through GPIO, not in the ST reply
+	 */
+	async readNormalizedStatus(): Promise<NormalizedStatus> {
+		const status = await super.readNormalizedStatus();
+		if (status.state === DispenserState.Offline) return status;
+
+		status.nozzle = (await this.isNozzleOnHook()) === 'true' ? NozzleState.OnHook : NozzleState.OffHook;
+		return status;
 	}
 
 	// this command takes care of authorization as well
@@ -201,7 +235,7 @@ export class Neogi extends BaseDispenser {
 	async clearSale() {
 		debugLog('clearSale');
 		await this.write(this.cmd_clearSale, 'clearSale');
-		await this.dispenserResponse();
+		return await this.dispenserResponse();
 	}
 
 	async switchToRemote() {
@@ -251,6 +285,18 @@ export class Neogi extends BaseDispenser {
 		return returnObj;
 	}
 
+	normalizeStatus(res: string): NormalizedStatus {
+		const status = this.processStatus(res);
+		const states: { [state: string]: DispenserState } = {
+			IDLE: DispenserState.Idle,
+			CALL: DispenserState.Calling,
+			DISP: DispenserState.Dispensing,
+		};
+		const returnObj = createNormalizedStatus(states[status.state] || DispenserState.Unknown, status);
+		debugLog('normalizeStatus: %o', returnObj);
+		return returnObj;
+	}
+
 	processCommand(res: string): boolean {
 		debugLog('processCommand - res: %s', res);
 
@@ -263,7 +309,7 @@ export class Neogi extends BaseDispenser {
 			return true;
 		}
 
-		throw new Error(`Command failed: ${ascii}`);
+		throw new NakError(`Command failed: ${ascii}`, { frame: res });
 	}
 
 	processRunningVolume(res: string): { volume: number } {
@@ -404,6 +450,10 @@ export class Neogi extends BaseDispenser {
 		return result;
 	}
 
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities({ presetByVolume: true, nozzleSensing: true, remoteLocalSwitch: true });
+	}
+
 	checkType(): string {
 		debugLog('checkType: NEOGI');
 		return 'NEOGI';
@@ -1,8 +1,12 @@
 import debug from 'debug';
 import { BaseDispenser } from './base/BaseDispenser';
+import { TCS3000Parser } from './parsers/TCS3000Parser';
+import { createNormalizedStatus, DispenserState, NormalizedStatus } from './interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from './interface/DispenserCapabilities';
 import { AutoDetectTypes } from '@serialport/bindings-cpp';
 import { SerialPort } from 'serialport';
 import { DispenserOptions } from '../main';
+import { ITransport } from './interface/ITransport';
 import { FULL_CUT, LF, buildSlip } from '../utils/printFormat';
 
 const debugLog = debug('dispenser:tcs3000');
@@ -37,11 +41,25 @@ export class TCS3000 extends BaseDispenser {
 	];
 
 	printer: SerialPort<AutoDetectTypes>;
-	constructor(socket: SerialPort, printer: SerialPort, options: DispenserOptions) {
+	constructor(socket: ITransport, printer: SerialPort, options: DispenserOptions) {
 		super(socket, options);
 		this.printer = printer;
 	}
 
+	protected createParser() {
+		return new TCS3000Parser({ interval: this.options?.interByteTimeoutInterval });
+	}
+
+	/* 0x7e ... <crc>, CRC-8 over every byte before it */
+	verifyFrame(frame: Buffer) {
+		if (frame.length < 7 || frame[0] !== 0x7e || frame.length !== 7 + frame[5]) return true;
+		return frame.subarray(0, -1).reduce((crc, byte) => this.crc_array[crc ^ byte], 0) === frame[frame.length - 1];
+	}
+
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities({ presetByVolume: true, pumpStart: true, remoteLocalSwitch: true, onboardPrinter: Boolean(this.printer) });
+	}
+
 	checkType() {
 		return 'TCS3000';
 	}
@@ -193,11 +211,6 @@ export class TCS3000 extends BaseDispenser {
 		return await this.dispenserResponse();
 	}
 
-	hasExternalPump() {
-		debugLog('hasExternalPump', 'External_Pump');
-		return 'false';
-	}
-
 	// // readExternalPumpStatus() {
 	// //     debugLog("readExternalPumpStatus", "External_Pump_Status");
 	// //     this.connection.send("External_Pump_Status");
@@ -308,6 +321,26 @@ export class TCS3000 extends BaseDispenser {
 		return { status: statusMap.get(statusBit) };
 	}
 
+	normalizeStatus(res: string): NormalizedStatus {
+		const status = this.processStatus(res);
+		const states: { [status: string]: DispenserState } = {
+			ERROR: DispenserState.Error,
+			IDLE: DispenserState.Idle,
+			ACTIVE: DispenserState.Dispensing,
+			'AIR (Air detected)': DispenserState.Dispensing,
+			PAUSED: DispenserState.Suspended,
+			STOPPED: DispenserState.Completed,
+			TCKT_PENDING: DispenserState.TicketPending,
+			PRINTING: DispenserState.TicketPending,
+		};
+
+		const response = createNormalizedStatus((status.status && states[status.status]) || DispenserState.Unknown, status, {
+			errors: { airDetected: status.status == 'AIR (Air detected)' },
+		});
+		debugLog('normalizeStatus: %o', response);
+		return response;
+	}
+
 	isPumpStopped(res: string) {
 		debugLog('isPumpStoppedArgs: %s', res);
 		const status = this.processStatus(res);
@@ -407,14 +440,12 @@ export class TCS3000 extends BaseDispenser {
 		return false;
 	}
 
-	isNozzleOnHook() {
-		debugLog('isNozzleOnHook: %s', 'true');
-		return true;
+	isNozzleOnHook(): boolean {
+		throw this.unsupported('isNozzleOnHook');
 	}
 
-	isNozzleOffHook() {
-		debugLog('isNozzleOffHook: %s', 'true');
-		return true;
+	isNozzleOffHook(): boolean {
+		throw this.unsupported('isNozzleOffHook');
 	}
 
 	isPresetAvailable() {
@@ -1,102 +1,205 @@
 import debug from 'debug';
 import { BaseDispenser } from './base/BaseDispenser';
+import { DispenserError, NakError } from './errors';
+import { TokhiemParser } from './parsers/TokhiemParser';
+import { createNormalizedStatus, DispenserState, NormalizedStatus, NozzleState } from './interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from './interface/DispenserCapabilities';
+import { DispenserOptions } from './interface/IDispenser';
+import { ITransport } from './interface/ITransport';
+import { DispenserBus, DispenserBusOptions } from './transport/DispenserBus';
+import { parseTokhiemAddress } from '../utils/pumpAddress';
+import { FlowEstimator } from '../utils/FlowEstimator';
+import { BatchCounter } from '../utils/BatchCounter';
 
 const debugLog = debug('dispenser:Tokhiem');
+
+const SOH = 0x01;
+const ETX = 0x7f;
+
 export class Tokhiem extends BaseDispenser {
-	private totalizerBuffer = Buffer.from([0x01, 0x41, 0x54, 0x7f, 0x6b]);
-	private pump_start = Buffer.from([0x01, 0x41, 0x4f, 0x7f, 0x70]);
-	private pump_stop = Buffer.from([0x01, 0x41, 0x5a, 0x7f, 0x65]);
-	private read_preset = Buffer.from([0x01, 0x41, 0x48, 0x7f, 0x77]);
-	private cancel_preset = Buffer.from([0x01, 0x41, 0x45, 0x7f, 0x7a]);
-	private authorize = Buffer.from([0x01, 0x41, 0x41, 0x7f, 0x7e]);
-	private go_local = Buffer.from([0x01, 0x41, 0x47, 0x7f, 0x78]);
-	private clear_sale = Buffer.from([0x01, 0x41, 0x46, 0x7f, 0x79]);
-	private suspend_sale = Buffer.from([0x01, 0x41, 0x44, 0x7f, 0x7b]);
-	private resume_sale = Buffer.from([0x01, 0x41, 0x55, 0x7f, 0x6a]);
-	private tokhim_read_sale = Buffer.from([0x01, 0x41, 0x52, 0x7f, 0x6d]);
-	private tokhim_status = Buffer.from([0x01, 0x41, 0x53, 0x7f, 0x6c]);
-	private tokhim_authorize_on = Buffer.from([0x01, 0x41, 0x41, 0x7f, 0x7e]);
-	private tokhim_authorize_off = Buffer.from([0x01, 0x41, 0x47, 0x7f, 0x78]);
-	private tokhim_show_preset = Buffer.from([0x01, 0x41, 0x43, 0x7f, 0x7c]);
+	// command codes, framed by frame() as SOH <address> <code> [data] 0x7f <BCC>
+	private read_totalizer = 'T';
+	private pump_start = 'O';
+	private pump_stop = 'Z';
+	private read_preset = 'H';
+	private cancel_preset = 'E';
+	private authorize = 'A';
+	private go_local = 'G';
+	private clear_sale = 'F';
+	private suspend_sale = 'D';
+	private resume_sale = 'U';
+	private tokhim_read_sale = 'R';
+	private tokhim_status = 'S';
+	private tokhim_authorize_on = 'A';
+	private tokhim_authorize_off = 'G';
+	private tokhim_show_preset = 'C';
+	// not backed by a Tokhiem protocol document section or a captured exchange yet, confirm on a dispenser before relying on it
+	private set_unit_price = 'K';
+	private readonly address: number;
+	// the protocol reports neither flow nor batch numbers
+	private flow = new FlowEstimator();
+	private batches: BatchCounter;
+
+	constructor(socket: ITransport, options: DispenserOptions) {
+		super(socket, options);
+		this.address = parseTokhiemAddress(options.pumpAddress);
+		if (Number.isNaN(this.address)) throw new Error(`Invalid Tokhiem pump address: ${options.pumpAddress}`);
+		// pumps on one bus are usually configured alike, each counts under its letter
+		this.batches = new BatchCounter(options.batchFile, String.fromCharCode(this.address));
+	}
+
+	/**
+	 * Line shared by several pumps, see Tokhiem.onBus.
+	 * @param connection the RS-485 line
+	 * @param options reopen to recover the line after a USB drop
+	 */
+	static createBus(connection: ITransport, options: Partial<DispenserBusOptions> = {}): DispenserBus {
+		return new DispenserBus(connection, {
+			createParser: () => new TokhiemParser(),
+			addressOf: (frame) => (frame[0] === SOH ? frame[1] : undefined),
+			...options,
+		});
+	}
+
+	/**
+	 * Pump at options.pumpAddress on a shared bus, its commands interleave with the other pumps' through one queue.
+	 */
+	static onBus(bus: DispenserBus, options: DispenserOptions): Tokhiem {
+		return new Tokhiem(bus.channel(parseTokhiemAddress(options.pumpAddress)), options);
+	}
+
+	/**
+	 * Request frame for this pump's address.
+	 * @param code command letter
+	 * @param data command data, the preset digits
+	 */
+	frame(code: string, data: Buffer = Buffer.alloc(0)): Buffer {
+		const body = Buffer.concat([Buffer.from([SOH, this.address, code.charCodeAt(0)]), data, Buffer.from([ETX])]);
+		return Buffer.concat([body, Buffer.from([body.reduce((acc, byte) => acc ^ byte, 0)])]);
+	}
+
+	protected createParser() {
+		return new TokhiemParser({ interval: this.options?.interByteTimeoutInterval });
+	}
+
+	/* SOH ... 0x7f <bcc>, the BCC is the XOR of every byte before it */
+	verifyFrame(frame: Buffer) {
+		if (frame[0] !== SOH || frame[frame.length - 2] !== ETX) return true;
+		return frame.subarray(0, -1).reduce((acc, byte) => acc ^ byte, 0) === frame[frame.length - 1];
+	}
 
 	async totalizer() {
 		debugLog('totalizer');
-		await this.write(this.totalizerBuffer, 'totalizer');
+		await this.write(this.frame(this.read_totalizer), 'totalizer');
 		return await this.dispenserResponse();
 	}
 
 	async authorizeSale() {
 		debugLog('authorizeSale');
-		await this.write(this.authorize, 'authorizeSale');
+		await this.write(this.frame(this.authorize), 'authorizeSale');
 		return await this.dispenserResponse();
 	}
 
 	async readPreset() {
 		debugLog('readPreset');
-		await this.write(this.read_preset, 'readPreset');
+		await this.write(this.frame(this.read_preset), 'readPreset');
 		return await this.dispenserResponse();
 	}
 
 	async suspendDispencer() {
 		debugLog('suspendDispencer');
-		await this.write(this.suspend_sale, 'suspendDispencer');
+		await this.write(this.frame(this.suspend_sale), 'suspendDispencer');
 		return await this.dispenserResponse();
 	}
 
 	async clearSale() {
 		debugLog('clearSale');
-		await this.write(this.clear_sale, 'clearSale');
-		return await this.dispenserResponse();
+		await this.write(this.frame(this.clear_sale), 'clearSale');
+		const res = await this.dispenserResponse();
+		if (res.includes('59')) this.closeBatch();
+		return res;
 	}
 
 	async readSale() {
 		debugLog('readSale');
-		await this.write(this.tokhim_read_sale, 'readSale');
+		await this.write(this.frame(this.tokhim_read_sale), 'readSale');
+		return await this.dispenserResponse();
+	}
+
+	/**
+	 * Unit price is part of the sale record, see processUnitPrice.
+	 */
+	async readUnitPrice() {
+		debugLog('readUnitPrice');
+		await this.write(this.frame(this.tokhim_read_sale), 'readUnitPrice');
+		return await this.dispenserResponse();
+	}
+
+	/**
+	 * Price data is <2 integer digits> '.' <3 decimal digits>, as the sale record reports it.
+	 * Both the 'K' code and this layout are unverified, see set_unit_price.
+	 * @param price 0.001 to 99.999 per litre
+	 */
+	async setUnitPrice(price: number) {
+		debugLog('setUnitPrice', price);
+		const thousandths = Math.round(price * 1000);
+		if (!(thousandths >= 1 && thousandths <= 99999)) {
+			throw new DispenserError(`Unit price ${price} out of range, expected 0.001 to 99.999`, { command: 'setUnitPrice' });
+		}
+
+		const data = (thousandths / 1000).toFixed(3).padStart(6, '0');
+		await this.write(this.frame(this.set_unit_price, Buffer.from(data, 'ascii')), 'setUnitPrice');
 		return await this.dispenserResponse();
 	}
 
 	async readAuth() {
 		debugLog('readAuth');
-		await this.write(this.tokhim_status, 'readAuth');
+		await this.write(this.frame(this.tokhim_status), 'readAuth');
 		return await this.dispenserResponse();
 	}
 
 	async cancelPreset() {
 		debugLog('cancelPreset');
-		await this.write(this.cancel_preset, 'cancelPreset');
+		await this.write(this.frame(this.cancel_preset), 'cancelPreset');
 		return await this.dispenserResponse();
 	}
 
 	async resumeDispencer() {
 		debugLog('resumeDispencer');
-		await this.write(this.resume_sale, 'resumeDispencer');
+		await this.write(this.frame(this.resume_sale), 'resumeDispencer');
 		return await this.dispenserResponse();
 	}
 
 	async pumpStop() {
 		debugLog('pumpStop');
-		await this.write(this.pump_stop, 'pumpStop');
+		await this.write(this.frame(this.pump_stop), 'pumpStop');
 		return await this.dispenserResponse();
 	}
 
 	async pumpStart() {
 		debugLog('pumpStart');
-		await this.write(this.pump_start, 'pumpStart');
+		await this.write(this.frame(this.pump_start), 'pumpStart');
 		return await this.dispenserResponse();
 	}
 
 	printReciept(receiptMessage: unknown) {
-		debugLog('printReciept');
-		return '59';
+		throw this.unsupported('printReciept');
 	}
 
 	getType() {
 		return 'TOKHIEM';
 	}
 
-	getExternalPump() {
-		debugLog('getExternalPump: false');
-		return 'false';
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities({
+			presetByVolume: true,
+			presetByAmount: true,
+			pumpStart: true,
+			nozzleSensing: true,
+			batchNumbers: true,
+			flowRate: true,
+			remoteLocalSwitch: true,
+		});
 	}
 
 	async switchMode(online = true) {
@@ -106,53 +209,33 @@ export class Tokhiem extends BaseDispenser {
 			return await this.pumpStart();
 		}
 		debugLog('switchMode: offline');
-		await this.write(this.tokhim_authorize_off, 'switchMode:offline');
+		await this.write(this.frame(this.tokhim_authorize_off), 'switchMode:offline');
 		return await this.dispenserResponse();
 	}
 
 	async readDispencerStatus() {
 		debugLog('readDispencerStatus');
-		await this.write(this.tokhim_status, 'readDispencerStatus');
+		await this.write(this.frame(this.tokhim_status), 'readDispencerStatus');
 		return await this.dispenserResponse();
 	}
 
-	async sendPreset(quantity: number) {
-		debugLog('sendPreset', quantity);
-		const set = Math.floor(quantity); // Convert quantity to integer
-
-		let J = 0,
-			K = 0,
-			L = 0,
-			P = 0;
-
-		if (set < 10) {
-			P = set;
-		} else if (set < 100) {
-			L = Math.floor(set / 10);
-			P = set % 10;
-		} else if (set < 1000) {
-			K = Math.floor(set / 100);
-			L = Math.floor((set / 10) % 10);
-			P = set % 10;
-		} else if (set < 10000) {
-			J = Math.floor(set / 1000);
-			K = Math.floor((set / 100) % 10);
-			L = Math.floor((set / 10) % 10);
-			P = set % 10;
+	/**
+	 * Preset data is <kind> '0' <4 integer digits> <2 decimal digits>, kind '1' presets litres and '2' money.
+	 * Kind '1' with its 8 digits is what the driver has always sent, with the decimals fixed at '00'. Reading those as
+	 * decimals and kind '2' as a money preset is not backed by a protocol document section or a captured exchange yet.
+	 * @param value litres or amount, 0.01 to 9999.99
+	 */
+	async sendPreset(value: number, kind: 'volume' | 'amount' = 'volume') {
+		debugLog('sendPreset', value, kind);
+		const hundredths = Math.round(value * 100);
+		if (!(hundredths >= 1 && hundredths <= 999999)) {
+			throw new DispenserError(`Preset ${kind} ${value} out of range, expected 0.01 to 9999.99`, { command: 'sendPreset' });
 		}
 
-		const one = 0x30 + J;
-		const two = 0x30 + K;
-		const three = 0x30 + L;
-		const four = 0x30 + P;
-
-		const BCC = Buffer.from([0x01, 0x41, 0x50, 0x31, 0x30, one, two, three, four, 0x30, 0x30, 0x7f]);
-		const result = BCC.reduce((acc, byte) => acc ^ byte, 0);
-		const volume = Buffer.concat([BCC, Buffer.from([result])]);
-
-		// Assuming you have a serialport object named 'dispencerSerial'
-		debugLog('volume sent', volume);
-		await this.write(volume, 'sendPreset');
+		const data = `${kind === 'amount' ? '2' : '1'}0${String(hundredths).padStart(6, '0')}`;
+		const preset = this.frame('P', Buffer.from(data, 'ascii'));
+		debugLog('preset sent', preset);
+		await this.write(preset, 'sendPreset');
 		return await this.dispenserResponse();
 	}
 
@@ -213,6 +296,11 @@ export class Tokhiem extends BaseDispenser {
 		return await this.sendPreset(quantity);
 	}
 
+	async setAmountPreset(amount: number) {
+		debugLog('setAmountPreset', amount);
+		return await this.sendPreset(amount, 'amount');
+	}
+
 	async suspendSale() {
 		debugLog('suspendSale');
 		return await this.suspendDispencer();
@@ -223,11 +311,6 @@ export class Tokhiem extends BaseDispenser {
 		return await this.resumeDispencer();
 	}
 
-	hasExternalPump() {
-		debugLog('hasExternalPump');
-		return this.getExternalPump();
-	}
-
 	// todo need to move this to base dispenser
 	// readExternalPumpStatus() {
 	//   this.connection.send("External_Pump_Status");
@@ -241,11 +324,8 @@ export class Tokhiem extends BaseDispenser {
 	//   this.connection.send("External_Pump_Stop");
 	// }
 
-	async printReceipt(printObj: any) {
-		await new Promise((resolve) => setTimeout(resolve, 200));
-		debugLog('printReceipt:', printObj);
-		return '59';
-		// this.connection.send("Print_Receipt");
+	printReceipt(printObj: unknown) {
+		throw this.unsupported('printReceipt');
 	}
 
 	processStatus(res: string) {
@@ -264,6 +344,34 @@ export class Tokhiem extends BaseDispenser {
 		return returnObj;
 	}
 
+	normalizeStatus(res: string): NormalizedStatus {
+		const status = this.processStatus(res);
+		const states: { [state: string]: DispenserState } = {
+			Idle: DispenserState.Idle,
+			Call: DispenserState.Calling,
+			'Preset Ready': DispenserState.PresetReady,
+			Fueling: DispenserState.Dispensing,
+			Payable: DispenserState.Completed,
+			Suspended: DispenserState.Suspended,
+			Stopped: DispenserState.Completed,
+			Inoperative: DispenserState.Error,
+			Authorised: DispenserState.Authorized,
+			Started: DispenserState.Dispensing,
+			'Suspend Started': DispenserState.Suspended,
+			'Wait for preset': DispenserState.Idle,
+		};
+
+		const returnObj = createNormalizedStatus(states[status.state] || DispenserState.Unknown, status, {
+			nozzle: status.duStatus['Nozzle'] === 'On Hook' ? NozzleState.OnHook : NozzleState.OffHook,
+			errors: {
+				pulserError: status.duStatus['SinglePulser'] === 'Fail' || status.duStatus['AllPulser'] === 'Fail',
+				powerFailure: status.duStatus['MainsFail'] === 'Fail',
+			},
+		});
+		debugLog('normalizeStatus: ', returnObj);
+		return returnObj;
+	}
+
 	processElockStatus(status: string) {
 		debugLog('processElockStatus', status);
 		const statuses: any = {
@@ -345,33 +453,47 @@ export class Tokhiem extends BaseDispenser {
 			case '3e':
 				return 'Wait for preset';
 			default:
-				throw new Error('Status not readable');
+				throw new DispenserError('Status not readable', { frame: status });
 		}
 	}
 
 	processCommand(res: string) {
 		debugLog('processCommand', arguments);
 		if (!res.includes('59')) {
-			throw Error('Command failed! check for status');
+			throw new NakError('Command failed! check for status', { frame: res });
 		}
 		debugLog('processCommand: success');
 		return true;
 	}
 
+	/**
+	 * every sale reading feeds the flow estimate, also when polled without isOrderComplete
+	 */
 	processReadSale(res: string) {
 		debugLog('processReadSale', arguments);
+		const sale = this.decodeSale(res);
+		this.flow.addSample(sale.volume);
+		return sale;
+	}
+
+	private decodeSale(res: string) {
 		const responseCodedArray = res.split('2e');
 		const returnObj = {
-			unitPrice: this.processResponseRaw([responseCodedArray[0], responseCodedArray[1]], 4, 6),
-			volume: this.processResponseRaw([responseCodedArray[1], responseCodedArray[2]], 8, 6),
-			amount: this.processResponseRaw([responseCodedArray[2], responseCodedArray[3]], 10, 2),
+			unitPrice: parseFloat(this.processResponseRaw([responseCodedArray[0], responseCodedArray[1]], 4, 6)),
+			volume: parseFloat(this.processResponseRaw([responseCodedArray[1], responseCodedArray[2]], 8, 6)),
+			amount: parseFloat(this.processResponseRaw([responseCodedArray[2], responseCodedArray[3]], 10, 2)),
 			density: '',
 		};
 
-		debugLog('processReadSale: ', returnObj);
+		debugLog('decodeSale: ', returnObj);
 		return returnObj;
 	}
 
+	processUnitPrice(res: string) {
+		debugLog('processUnitPrice', arguments);
+		return this.decodeSale(res).unitPrice;
+	}
+
 	/**
 	 * process totalizer string value.
 	 * @param res string
@@ -396,39 +518,47 @@ export class Tokhiem extends BaseDispenser {
 
 	processReadPreset(res: string) {
 		debugLog('processReadPreset', arguments);
-		if (res.includes('4e')) throw new Error('Preset read command failed! please check');
+		if (res.includes('4e')) throw new NakError('Preset read command failed! please check', { frame: res });
 
 		var returnObj = this.processResponse(res.split('2e'), 14, 4);
 		debugLog('processReadPreset: ', returnObj);
 		return returnObj;
 	}
 
+	/**
+	 * estimated from the sale readings of processReadSale
+	 */
 	processFlowRate(res: string) {
 		debugLog('processFlowRate: %s', res);
-		// const response = parseInt(this.hex2a(res.slice(-82, -70)));
-		// debugLog("processFlowRate", JSON.stringify(response));
-		return 0;
+		return this.flow.currentFlowRate();
 	}
 
 	processAverageFlowRate(res: string) {
 		debugLog('processAverageFlowRate: %s', res);
-		// const response = parseInt(this.hex2a(res.slice(-70, -58)));
-		// debugLog("processAverageFlowRate", JSON.stringify(response));
-		return 0;
+		return this.flow.averageFlowRate();
 	}
 
+	/**
+	 * sales counted by the SDK, the last completed one
+	 */
 	processBatchNumber(res: string) {
 		debugLog('processBatchNumber: %s', res);
-		// const response = parseInt(this.hex2a(res.slice(-58, -46)));
-		// debugLog("processBatchNumber", JSON.stringify(0));
-		return 0;
+		return this.batches.current;
+	}
+
+	/**
+	 * a cleared sale that dispensed anything gets the next batch number
+	 */
+	private closeBatch() {
+		if (this.flow.volume > 0) debugLog('closeBatch: %d', this.batches.increment());
+		this.flow.reset();
 	}
 
 	processResponseRaw(response: string[], exponentCut: number, mantessaCut: number) {
 		debugLog('processResponseRaw', arguments);
 
 		if (response.length < 2) {
-			throw new Error('Incompatible response');
+			throw new DispenserError('Incompatible response', { frame: response.join('') });
 		}
 
 		const exponent = this.hex2a(this.cutStringFromLast(response[0], exponentCut, true));
@@ -572,26 +702,17 @@ export class Tokhiem extends BaseDispenser {
 
 	isOrderComplete(res: string, quantity: number) {
 		debugLog('isOrderComplete Arguments', arguments);
-		const readsale = this.toFixedNumber(parseFloat(this.processReadSale(res).volume), 2);
-		if (readsale >= quantity) {
-			var returnObj = {
-				status: true,
-				percentage: this.toFixedNumber((readsale / quantity) * 100.0, 2),
-				currentFlowRate: this.processFlowRate(res),
-				averageFlowRate: this.processAverageFlowRate(res),
-				batchNumber: this.processBatchNumber(res),
-				dispensedQty: this.toFixedNumber(readsale, 2),
-			};
-			debugLog('isOrderComplete: ', returnObj);
-			return returnObj;
-		}
+		const sale = this.processReadSale(res);
+		const readsale = this.toFixedNumber(sale.volume, 2);
 		var returnObj = {
-			status: false,
+			status: readsale >= quantity,
 			percentage: this.toFixedNumber((readsale / quantity) * 100.0, 2),
 			currentFlowRate: this.processFlowRate(res),
 			averageFlowRate: this.processAverageFlowRate(res),
-			batchNumber: this.processBatchNumber(res),
-			dispensedQty: this.toFixedNumber(readsale, 2),
+			batchNumber: this.processBatchNumber(res) + 1, // the open sale
+			dispensedQty: readsale,
+			unitPrice: sale.unitPrice,
+			amount: this.toFixedNumber(sale.amount, 2),
 		};
 
 		debugLog('isOrderComplete: ', returnObj);
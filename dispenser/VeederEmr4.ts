@@ -1,29 +1,69 @@
 import debug from 'debug';
 import { BaseDispenser } from './base/BaseDispenser';
+import { DispenserError, NakError } from './errors';
+import { VeederEmr4Parser } from './parsers/VeederEmr4Parser';
+import {
+	decodeEmr4Frame,
+	decodeEmr4Frames,
+	EMR4_ACK,
+	EMR4_HOST,
+	EMR4_METER,
+	EMR4_NAK,
+	encodeEmr4Frame,
+} from './parsers/VeederEmr4Codec';
+import { createNormalizedStatus, DispenserState, NormalizedStatus } from './interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from './interface/DispenserCapabilities';
+import { DispenserOptions, PrinterStatus } from './interface/IDispenser';
+import { ITransport } from './interface/ITransport';
+import { FlowEstimator } from '../utils/FlowEstimator';
+import { BatchCounter } from '../utils/BatchCounter';
 
 const debugLog = debug('dispenser:veederEmr4');
+
+/**
+ * frame from the host to the meter, payload is <command> <sub command> [data]
+ */
+function request(command: number, sub: number, ...data: number[]): Buffer {
+	return encodeEmr4Frame({ to: EMR4_METER, from: EMR4_HOST, command, sub, data: Buffer.from(data) });
+}
+
+// reply of the commands that are not sent to the meter, pump start and stop go over GPIO
+const ACK_REPLY = encodeEmr4Frame({ to: EMR4_HOST, from: EMR4_METER, command: EMR4_ACK, sub: 0x00, data: Buffer.alloc(0) }).toString('hex');
+
 export class VeederEmr4 extends BaseDispenser {
-	private veeder_start = Buffer.from([0x7e, 0x01, 0xff, 0x53, 0x75, 0x00, 0x38, 0x7e]);
-	private veeder_mode = Buffer.from([0x7e, 0x01, 0xff, 0x53, 0x75, 0x02, 0x36, 0x7e]);
-	private veeder_finish = Buffer.from([0x7e, 0x01, 0xff, 0x53, 0x75, 0x01, 0x37, 0x7e]);
-	private veeder_totalizer = Buffer.from([0x7e, 0x01, 0xff, 0x47, 0x6c, 0x4d, 0x7e]);
-	private veeder_status = Buffer.from([0x7e, 0x01, 0xff, 0x54, 0x03, 0xa9, 0x7e]);
-	private veeder_read_volume = Buffer.from([0x7e, 0x01, 0xff, 0x47, 0x6b, 0x4e, 0x7e]);
-	private veeder_read_preset = Buffer.from([0x7e, 0x01, 0xff, 0x47, 0x6e, 0x4b, 0x7e]);
-	private veeder_reset = Buffer.from([0x7e, 0x01, 0xff, 0x52, 0x00, 0xae, 0x7e]);
-	private veeder_preset = Buffer.from([0x7e, 0x01, 0xff, 0x53, 0x75, 0x03, 0x35, 0x7e]);
-	private veeder_authorize_on = Buffer.from([0x7e, 0x01, 0xff, 0x44, 0x25, 0x01, 0x96, 0x7e]);
-	private veeder_authorize_off = Buffer.from([0x7e, 0x01, 0xff, 0x44, 0x25, 0x00, 0x97, 0x7e]);
-	private veeder_show_preset = Buffer.from([0x7e, 0x01, 0xff, 0x53, 0x75, 0x03, 0x35, 0x7e]);
-	private veeder_emr_state = Buffer.from([0x7e, 0x01, 0xff, 0x54, 0x08, 0xa4, 0x7e]);
-	private veeder_pause = Buffer.from([0x7e, 0x01, 0xff, 0x4f, 0x02, 0xaf, 0x7e]);
-	private veeder_resume = Buffer.from([0x7e, 0x01, 0xff, 0x4f, 0x01, 0x00, 0xb0, 0x7e]);
-	private veeder_read_sale = Buffer.from([0x7e, 0x01, 0xff, 0x47, 0x4b, 0x6e, 0x7e]);
-	private veeder_get_authorization = Buffer.from([0x7e, 0x01, 0xff, 0x54, 0x05, 0xa7, 0x7e]);
-	private veeder_emr_status = Buffer.from([0x7e, 0x01, 0xff, 0x47, 0x4b, 0x6f, 0x7e]);
-	private veeder_end_delivery = Buffer.from([0x7e, 0x01, 0xff, 0x4f, 0x03, 0xae, 0x7e]);
-	private veeder_delivery_auth = Buffer.from([0x7e, 0x01, 0xff, 0x4f, 0x06, 0x01, 0xaa, 0x7e]);
-	private veeder_auth_required = Buffer.from([0x7e, 0x01, 0xff, 0x44, 0x25, 0x01, 0x96, 0x7e]);
+	private veeder_start = request(0x53, 0x75, 0x00);
+	private veeder_mode = request(0x53, 0x75, 0x02);
+	private veeder_finish = request(0x53, 0x75, 0x01);
+	private veeder_totalizer = request(0x47, 0x6c);
+	private veeder_status = request(0x54, 0x03);
+	private veeder_read_volume = request(0x47, 0x6b);
+	private veeder_read_preset = request(0x47, 0x6e);
+	private veeder_read_unit_price = request(0x47, 0x70);
+	private veeder_reset = request(0x52, 0x00);
+	private veeder_preset = request(0x53, 0x75, 0x03);
+	private veeder_authorize_on = request(0x44, 0x25, 0x01);
+	private veeder_authorize_off = request(0x44, 0x25, 0x00);
+	private veeder_show_preset = request(0x53, 0x75, 0x03);
+	private veeder_emr_state = request(0x54, 0x08);
+	private veeder_pause = request(0x4f, 0x02);
+	private veeder_resume = request(0x4f, 0x01, 0x00);
+	private veeder_read_sale = request(0x47, 0x4b);
+	private veeder_get_authorization = request(0x54, 0x05);
+	private veeder_emr_status = request(0x47, 0x4b);
+	private veeder_end_delivery = request(0x4f, 0x03);
+	private veeder_delivery_auth = request(0x4f, 0x06, 0x01);
+	private veeder_auth_required = request(0x44, 0x25, 0x01);
+	// temperature compensation, only answered by meters with ATC.
+	// No EMR4 protocol document section or captured exchange backs these fields yet, confirm each on an ATC meter:
+	private veeder_read_temperature = request(0x47, 0x74); // field 0x74, product temperature in °C, float. Unverified
+	private veeder_read_net_volume = request(0x47, 0x6a); // field 0x6a, net volume at 15 °C, double like gross 0x4b. Unverified
+	private veeder_net_totalizer = request(0x47, 0x6d); // field 0x6d, net totalizer, ASCII like gross 0x6c. Unverified
+	private veeder_read_net_preset = request(0x47, 0x6f); // field 0x6f, net preset, float like gross 0x6e. Unverified
+	// delivery tickets, printed by the register itself.
+	// No EMR4 protocol document section or captured exchange backs these codes yet, confirm each on a register with a printer:
+	private veeder_print_ticket = request(0x4f, 0x04); // delivery order 0x04 after pause 0x02 and end 0x03, print ticket. Unverified
+	private veeder_clear_ticket = request(0x4f, 0x05); // delivery order 0x05, drop the pending ticket. Unverified
+	private veeder_printer_status = request(0x54, 0x0b); // status 0x0b, one printer state byte. Unverified
 
 	private deliveryStatus: string[] = [
 		'Delivery Error',
@@ -44,18 +84,84 @@ export class VeederEmr4 extends BaseDispenser {
 		'ATC Error',
 	];
 
+	// the register does not report money, amount is volume times the last price set or read
+	private unitPrice?: number;
+	// what the preset counts, a net preset stops at the compensated volume
+	private presetBasis: 'gross' | 'net' = 'gross';
+	// flow and batch registers are not read, both are derived by the SDK
+	private flow = new FlowEstimator();
+	private batches: BatchCounter;
+
+	constructor(socket: ITransport, options: DispenserOptions) {
+		super(socket, options);
+		this.batches = new BatchCounter(options.batchFile);
+	}
+
+	protected createParser() {
+		return new VeederEmr4Parser({ interval: this.options?.interByteTimeoutInterval });
+	}
+
+	/* the unstuffed bytes between the flags, checksum included, add up to 0 */
+	verifyFrame(frame: Buffer) {
+		if (frame.length < 3 || frame[0] !== 0x7e || frame[frame.length - 1] !== 0x7e) return true;
+		try {
+			decodeEmr4Frame(frame);
+			return true;
+		} catch (error) {
+			debugLog('verifyFrame: %s', (error as Error).message);
+			return false;
+		}
+	}
+
+	/**
+	 * Data of the reply to command, a NAK rejects.
+	 * @param sub picks the frame when a reply joins several, the first frame is used otherwise
+	 */
+	protected payload(res: string, command: number, sub?: number): Buffer {
+		const frames = decodeEmr4Frames(res);
+		if (!frames.length) throw new DispenserError('Veeder reply holds no frame', { frame: res });
+		if (frames.some(({ command }) => command === EMR4_NAK)) throw new NakError('Command failed! check for status', { frame: res });
+
+		const frame = sub === undefined ? frames[0] : frames.find((candidate) => candidate.command === command && candidate.sub === sub);
+		if (!frame || frame.command !== command) {
+			const [{ command: received, sub: receivedSub }] = frames;
+			throw new DispenserError(`Unexpected Veeder reply ${received.toString(16)}:${receivedSub.toString(16)}`, { frame: res });
+		}
+		return frame.data;
+	}
+
+	/**
+	 * every frame of the reply is an ACK
+	 */
+	protected isAcknowledged(res: string): boolean {
+		const frames = decodeEmr4Frames(res);
+		return frames.length > 0 && frames.every((frame) => frame.command === EMR4_ACK);
+	}
+
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities({
+			presetByVolume: true,
+			pumpStart: true,
+			batchNumbers: true,
+			flowRate: true,
+			temperatureCompensation: Boolean(this.options.atc),
+			onboardPrinter: Boolean(this.options.ticketPrinter),
+			remoteLocalSwitch: true,
+		});
+	}
+
 	getType() {
 		return 'VEEDER_EMR4';
 	}
 
 	processCommand(res: string) {
 		debugLog('processCommand: %s', res);
-		if (res.includes('7eff014100bf7e')) {
+		if (this.isAcknowledged(res)) {
 			debugLog('processCommand: Command successful');
 			return true;
 		}
 
-		throw Error('Command failed! check for status');
+		throw new NakError('Command failed! check for status', { frame: res });
 	}
 
 	checkType() {
@@ -83,48 +189,34 @@ export class VeederEmr4 extends BaseDispenser {
 		return await this.dispenserResponse();
 	}
 
-	pumpStart() {
-		return new Promise(async (resolve, reject) => {
-			try {
-				await this.write(this.veeder_auth_required, 'pumpStart');
-				const response = await this.dispenserResponse();
-				debugLog('pumpStart response: %s', response);
-				if (response.includes('7eff014100bf7e')) {
-					this.executeShellScriptAndCheck('scripts/EMR4/startpump.sh').then((result) => {
-						debugLog('pumpStart result: %s', result);
-
-						if (result) {
-							debugLog('pumpStart result: %s', '7eff014100bf7e');
-							return resolve('7eff014100bf7e');
-						}
-
-						debugLog('pumpStart result: %s', 'Command failed!');
-						return reject('Command failed!');
-					});
-				} else {
-					return reject(response);
-				}
-			} catch (error) {
-				debugLog('pumpStart error: %s', error);
-				return reject('Command failed!');
-			}
-		});
+	async pumpStart() {
+		await this.write(this.veeder_auth_required, 'pumpStart');
+		const response = await this.dispenserResponse();
+		debugLog('pumpStart response: %s', response);
+		if (!this.isAcknowledged(response)) {
+			throw new NakError('Command failed!', { command: 'pumpStart', frame: response });
+		}
+
+		const result = await this.switchPump(true);
+		debugLog('pumpStart result: %s', result);
+		if (!result) throw new DispenserError('Command failed! pump relay did not switch on', { command: 'pumpStart' });
+		return ACK_REPLY;
 	}
 
 	async pumpStop() {
-		try {
-			const result = await this.executeShellScriptAndCheck('scripts/EMR4/stoppump.sh');
-			debugLog('pumpStop result: %s', result);
-
-			if (result) {
-				return '7eff014100bf7e';
-			}
+		const result = await this.switchPump(false);
+		debugLog('pumpStop result: %s', result);
+		if (!result) throw new DispenserError('Command failed! pump relay did not switch off', { command: 'pumpStop' });
+		return ACK_REPLY;
+	}
 
-			return 'Command failed!';
-		} catch (error) {
-			debugLog('pumpStop error: %s', error);
-			return 'Command failed!';
-		}
+	/**
+	 * The pump relay is active low, the pin is read back to confirm it switched.
+	 */
+	private async switchPump(running: boolean): Promise<boolean> {
+		const pin = this.options.gpio?.pins?.pump ?? 22;
+		await this.gpio.write(pin, !running);
+		return (await this.gpio.read(pin)) === !running;
 	}
 
 	async authorizeSale() {
@@ -133,18 +225,64 @@ export class VeederEmr4 extends BaseDispenser {
 	}
 
 	async readPreset() {
-		await this.write(this.veeder_read_preset, 'readPreset');
+		await this.write(this.presetBasis === 'net' ? this.veeder_read_net_preset : this.veeder_read_preset, 'readPreset');
+		return await this.dispenserResponse();
+	}
+
+	/**
+	 * product temperature in °C, needs an ATC meter
+	 */
+	async readTemperature() {
+		await this.write(this.veeder_read_temperature, 'readTemperature');
 		return await this.dispenserResponse();
 	}
 
+	async netTotalizer() {
+		await this.write(this.veeder_net_totalizer, 'netTotalizer');
+		return await this.dispenserResponse();
+	}
+
+	async readUnitPrice() {
+		await this.write(this.veeder_read_unit_price, 'readUnitPrice');
+		return await this.dispenserResponse();
+	}
+
+	/**
+	 * Unit price field 0x70, a float like the preset.
+	 * @param price per litre, greater than 0
+	 */
+	async setUnitPrice(price: number) {
+		debugLog('setUnitPrice: %s', price);
+		if (!(price > 0 && Number.isFinite(price))) {
+			throw new DispenserError(`Unit price ${price} out of range, expected a positive number`, { command: 'setUnitPrice' });
+		}
+
+		const data = Buffer.alloc(4);
+		data.writeFloatLE(price);
+
+		await this.write(request(0x53, 0x70, ...data), 'setUnitPrice');
+		const res = await this.dispenserResponse();
+		if (this.isAcknowledged(res)) this.unitPrice = this.toFixedNumber(price, 3);
+		return res;
+	}
+
 	async cancelPreset() {
 		await this.write(this.veeder_reset, 'cancelPreset');
 		return await this.dispenserResponse();
 	}
 
+	/**
+	 * gross volume, followed by the net volume and temperature on ATC meters
+	 */
 	async readSale() {
 		await this.write(this.veeder_read_sale, 'readSale');
-		return await this.dispenserResponse();
+		const gross = await this.dispenserResponse();
+		if (!this.options.atc) return gross;
+
+		await this.write(this.veeder_read_net_volume, 'readSale');
+		const net = await this.dispenserResponse();
+		await this.write(this.veeder_read_temperature, 'readSale');
+		return gross + net + (await this.dispenserResponse());
 	}
 
 	async suspendSale() {
@@ -158,32 +296,55 @@ export class VeederEmr4 extends BaseDispenser {
 	}
 
 	async clearSale() {
+		// each frame is acknowledged on its own, the replies are checked together
 		await this.write(this.veeder_end_delivery, 'clearSale');
+		const endDelivery = await this.dispenserResponse();
 		await this.write(this.veeder_reset, 'clearSale');
-		return await this.dispenserResponse();
+		const res = endDelivery + (await this.dispenserResponse());
+		if (this.isAcknowledged(res)) {
+			this.closeBatch();
+			this.presetBasis = 'gross';
+		}
+		return res;
 	}
 
-	async readAuthorization() {
-		await this.write(this.veeder_get_authorization, 'readAuthorization');
+	/**
+	 * Print the ticket of the last delivery on the register's printer, the register refuses when none is pending.
+	 */
+	async printTicket() {
+		if (!this.options.ticketPrinter) throw this.unsupported('printTicket');
+		await this.write(this.veeder_print_ticket, 'printTicket');
 		return await this.dispenserResponse();
 	}
 
-	interpolateHex(originalString: string) {
-		const hexArray = originalString.match(/.{1,2}/g);
+	/**
+	 * Drop a pending ticket without printing it, for registers without a printer.
+	 */
+	async clearTicket() {
+		await this.write(this.veeder_clear_ticket, 'clearTicket');
+		return await this.dispenserResponse();
+	}
 
-		if (hexArray) {
-			return hexArray.reverse().join('');
-		}
+	async readPrinterStatus() {
+		await this.write(this.veeder_printer_status, 'readPrinterStatus');
+		return await this.dispenserResponse();
+	}
 
-		return '';
+	async readAuthorization() {
+		await this.write(this.veeder_get_authorization, 'readAuthorization');
+		return await this.dispenserResponse();
 	}
 
+	/**
+	 * status words are little endian, 0x54 replies
+	 */
 	processStatus(res: string) {
-		const statusString = parseInt(this.interpolateHex(res.substring(10).slice(0, -4)), 16);
-		if (isNaN(statusString)) {
-			throw new Error('Unknow Status');
+		const data = this.payload(res, 0x54);
+		if (data.length < 1 || data.length > 2) {
+			throw new DispenserError('Unknow Status', { frame: res });
 		}
 
+		const statusString = data.readUIntLE(0, data.length);
 		const binaryStatus = this.decimalToBinaryTwosComplement(statusString, 16);
 		const ret = new Map();
 		for (let i = 0; i < binaryStatus.length; i++) {
@@ -193,6 +354,37 @@ export class VeederEmr4 extends BaseDispenser {
 		return ret;
 	}
 
+	normalizeStatus(res: string): NormalizedStatus {
+		const status = this.processStatus(res);
+		const errors = {
+			deliveryError: status.get('Delivery Error'),
+			presetError: status.get('Preset Error'),
+			pulserError: status.get('Pulser Encoder Error'),
+			atcError: status.get('ATC Error'),
+		};
+
+		let state = DispenserState.Idle;
+		if (Object.values(errors).some(Boolean)) {
+			state = DispenserState.Error;
+		} else if (status.get('Delivery Ticket Is Pending')) {
+			state = DispenserState.TicketPending;
+		} else if (status.get('Pause Delivery Request')) {
+			state = DispenserState.Suspended;
+		} else if (status.get('Flow Is Active')) {
+			state = DispenserState.Dispensing;
+		} else if (status.get('Waiting For Authorization')) {
+			state = DispenserState.Calling;
+		} else if (status.get('Delivery Is Active')) {
+			state = DispenserState.Authorized;
+		} else if (status.get('Delivery Completed')) {
+			state = DispenserState.Completed;
+		}
+
+		const normalized = createNormalizedStatus(state, Object.fromEntries(status), { errors });
+		debugLog('normalizeStatus: %o', normalized);
+		return normalized;
+	}
+
 	processElockStatus(status: string) {
 		const statuses: any = {
 			Position: ['Unlocked', 'Locked'],
@@ -221,22 +413,36 @@ export class VeederEmr4 extends BaseDispenser {
 		}, {});
 	}
 
+	/**
+	 * volume is gross, ATC meters add the net volume at 15 °C and the temperature, amount is charged on net when known.
+	 * Every reading feeds the flow estimate, on the volume the preset is counted in.
+	 */
 	processReadSale(res: string) {
+		const volume = this.processDouble(res, 0x4b);
+		const netVolume = this.options.atc ? this.processDouble(res, 0x6a) : undefined;
+		const temperature = this.options.atc ? this.processTemperature(res) : undefined;
+		const unitPrice = this.unitPrice ?? 0;
+		this.flow.addSample(this.presetBasis === 'net' && netVolume !== undefined ? netVolume : volume);
 		return {
-			unitPrice: 0.0, //this.processResponseRaw([responseCodedArray[0],responseCodedArray[1]], 4, 6),
-			volume: this.processNumericResponse(res.substring(9).slice(0, -4)), // cut front 9 char and last 4 chars
-			amount: 0.0, //this.processResponseRaw([responseCodedArray[2],responseCodedArray[3]], 10, 2),
+			unitPrice,
+			volume,
+			grossVolume: volume,
+			netVolume,
+			temperature,
+			amount: this.toFixedNumber((netVolume ?? volume) * unitPrice, 2),
 			density: '', //@TODO fix me
 		};
 	}
 
 	/**
-	 * process totalizer string value.
-	 * @param res string
-	 * @returns
+	 * totalizer is ASCII, padded by the meter with NUL or spaces
 	 */
 	processTotalizer(res: string) {
-		return this.processResponse(res.split('2e'), 14, 4);
+		return this.processAsciiNumber(res, 0x6c);
+	}
+
+	processNetTotalizer(res: string) {
+		return this.processAsciiNumber(res, 0x6d);
 	}
 
 	processTotalizerWithBatch(res: string) {
@@ -247,70 +453,78 @@ export class VeederEmr4 extends BaseDispenser {
 		};
 	}
 
+	/**
+	 * gross or net preset, whichever readPreset asked for
+	 */
 	processReadPreset(res: string) {
-		// if(res.includes('4e')) throw new Error("Preset read command failed! please check");
+		return this.processFloat(res);
+	}
+
+	processTemperature(res: string) {
+		return this.toFixedNumber(this.processFloat(res, 0x74), 2);
+	}
 
-		return this.processFloatResponse(res.split('7e')[1]);
+	processUnitPrice(res: string) {
+		// float precision, 2.35 reads back as 2.3499999
+		this.unitPrice = this.toFixedNumber(this.processFloat(res, 0x70), 3);
+		debugLog('processUnitPrice: %s', this.unitPrice);
+		return this.unitPrice;
 	}
 
+	/**
+	 * estimated from the sale readings of processReadSale
+	 */
 	processFlowRate(res: string) {
 		debugLog('processFlowRate: %s', res);
-		// const response = parseInt(this.hex2a(res.slice(-82, -70)));
-		// debugLog("processFlowRate", JSON.stringify(response));
-		return 0;
+		return this.flow.currentFlowRate();
 	}
 
 	processAverageFlowRate(res: string) {
 		debugLog('processAverageFlowRate: %s', res);
-		// const response = parseInt(this.hex2a(res.slice(-70, -58)));
-		// debugLog("processAverageFlowRate", JSON.stringify(response));
-		return 0;
+		return this.flow.averageFlowRate();
 	}
 
+	/**
+	 * sales counted by the SDK, the last completed one
+	 */
 	processBatchNumber(res: string) {
 		debugLog('processBatchNumber: %s', res);
-		// const response = parseInt(this.hex2a(res.slice(-58, -46)));
-		// debugLog("processBatchNumber", JSON.stringify(0));
-		return 0;
+		return this.batches.current;
 	}
 
-	processNumericResponse(response: string) {
-		const hexStringArray = ('0000000000000000' + response).slice(-16).match(/.{1,2}/g);
-		if (!hexStringArray) return 0;
-		return this.hexToNumber(hexStringArray.reverse().join(''));
+	/**
+	 * a cleared sale that dispensed anything gets the next batch number
+	 */
+	private closeBatch() {
+		if (this.flow.volume > 0) debugLog('closeBatch: %d', this.batches.increment());
+		this.flow.reset();
 	}
 
-	processFloatResponse(response: string) {
-		const volumeHex = this.cutStringFromLast(this.interpolateHex(this.cutStringFromLast(response, 10, true)), 8, true);
-
-		return this.hexToFloat(volumeHex);
+	/**
+	 * float field of a 0x47 reply
+	 */
+	processFloat(res: string, field?: number) {
+		const data = this.payload(res, 0x47, field);
+		if (data.length < 4) throw new DispenserError('Veeder field is not a float', { frame: res });
+		return data.readFloatLE(0);
 	}
 
-	processResponseRaw(response: string, exponentCut: number, mantessaCut: number) {
-		const fullAscii = this.hex2a(response);
-		debugLog("processResponseRaw Full ASCII: %s", fullAscii);
-
-		// Extract all numeric values (including decimals)
-		const numericValues = fullAscii.match(/\d+\.?\d*/g);
-		console.log("processResponseRaw All numeric values:", numericValues);
-
-		// Get the last numeric value
-		const lastValue = numericValues ? numericValues[numericValues.length - 1] : '0.0';
-		debugLog("processResponseRaw Last float value: %s", lastValue);
-		return lastValue;
+	/**
+	 * volumes are doubles
+	 */
+	processDouble(res: string, field: number) {
+		const data = this.payload(res, 0x47, field);
+		if (data.length < 8) throw new DispenserError('Veeder field is not a double', { frame: res });
+		return data.readDoubleLE(0);
 	}
 
 	/**
-	 * totalizer encoded to actual string helper.
-	 * @param response string[]
-	 * @param exponentCut number
-	 * @param mantessaCut number
-	 * @returns
+	 * totalizers are ASCII, padded by the meter with NUL or spaces
 	 */
-	processResponse(response: string[], exponentCut: number, mantessaCut: number) {
-		const respRaw  = this.processResponseRaw(response.join('2e'), exponentCut, mantessaCut);
-		debugLog("processResponse before parseFloat %s", respRaw);
-		return parseFloat(respRaw);
+	processAsciiNumber(res: string, field: number) {
+		const value = this.payload(res, 0x47, field).toString('ascii').match(/\d+(\.\d+)?/);
+		if (!value) throw new DispenserError('Veeder field is not a number', { frame: res });
+		return parseFloat(value[0]);
 	}
 
 	isPumpStopped(res: string) {
@@ -337,31 +551,24 @@ export class VeederEmr4 extends BaseDispenser {
 	}
 
 	isNozzleOnHook(res: string): boolean {
-		debugLog('isNozzleOnHook: %s', res);
-		const dispenserStatus = this.processStatus(res);
-		debugLog('isNozzleOnHook: %s', dispenserStatus);
-		return true;
+		throw this.unsupported('isNozzleOnHook');
 	}
 
 	isNozzleOffHook(res: string): boolean {
-		debugLog('isNozzleOffHook: %s', res);
-		const dispenserStatus = this.processStatus(res);
-		debugLog('isNozzleOffHook: %s', dispenserStatus);
-		return true;
+		throw this.unsupported('isNozzleOffHook');
 	}
 
 	isOnline(res: string): boolean {
 		debugLog('isOnline: %s', res);
 		const dispenserStatus = this.processStatus(res);
 		debugLog('isOnline: %s', dispenserStatus);
-		return res.substring(10).slice(0, -4) == '01';
+		const [frame] = decodeEmr4Frames(res);
+		return frame?.data.length === 1 && frame.data[0] === 0x01;
 	}
 
 	isPresetAvailable(res: string): boolean {
 		debugLog('isPresetAvailable: %s', res);
-		const dispenserStatus = this.processStatus(res);
-		debugLog('isPresetAvailable: %s', dispenserStatus);
-		return true;
+		return this.getCapabilities().presetByVolume;
 	}
 
 	isNozzleCheckRequired(res: string) {
@@ -398,45 +605,57 @@ export class VeederEmr4 extends BaseDispenser {
 		return false;
 	}
 
+	// clearSale ends the delivery itself, the sale only has to stop flowing first
 	isSaleCloseable(res: string) {
 		const dispenserStatus = this.processStatus(res);
 		debugLog('isSaleCloseable: %s', dispenserStatus);
-		// if (dispenserStatus.get("Net Preset Is Active") || dispenserStatus.get("Delivery Error")) {
-		return true;
-		// }
-		// return false;
+		return !dispenserStatus.get('Flow Is Active');
+	}
+
+	/**
+	 * printer state byte: bit 0 online, bit 1 printing, bit 2 out of paper. The bit layout is unverified, see veeder_printer_status
+	 */
+	processPrinterStatus(res: string): PrinterStatus {
+		const [status = 0] = this.payload(res, 0x54, 0x0b);
+		const printer = { online: Boolean(status & 0x01), printing: Boolean(status & 0x02), paperOut: Boolean(status & 0x04) };
+		debugLog('processPrinterStatus: %o', printer);
+		return printer;
 	}
 
 	/**
-	 * we can install a printer on this dispenser. but it's not installed.
-	 * @returns false
+	 * @param res reply of readPrinterStatus, false when no ticket printer is configured
 	 */
 	isPrinterAvailable(res: string) {
 		debugLog('isPrinterAvailable: %s', res);
-		debugLog('isPrinterAvailable: %s', 'false');
-		return false;
+		if (!this.options.ticketPrinter) return false;
+		const printer = this.processPrinterStatus(res);
+		return printer.online && !printer.paperOut;
+	}
+
+	/**
+	 * the register holds the delivery until its ticket is printed or cleared
+	 */
+	isTicketPending(res: string) {
+		return Boolean(this.processStatus(res).get('Delivery Ticket Is Pending'));
 	}
 
 	isOrderComplete(res: string, quantity: number) {
-		const readsale = this.processReadSale(res).volume;
+		const sale = this.processReadSale(res);
+		// a net preset is reached on the compensated volume
+		const readsale = this.presetBasis === 'net' && sale.netVolume !== undefined ? sale.netVolume : sale.volume;
 		debugLog('isOrderComplete: %s', readsale);
-		if (readsale >= quantity) {
-			return {
-				status: true,
-				percentage: this.toFixedNumber((readsale / quantity) * 100.0, 2),
-				currentFlowRate: this.processFlowRate(res),
-				averageFlowRate: this.processAverageFlowRate(res),
-				batchNumber: this.processBatchNumber(res),
-				dispensedQty: this.toFixedNumber(readsale, 2),
-			};
-		}
 		return {
-			status: false,
+			status: readsale >= quantity,
 			percentage: this.toFixedNumber((readsale / quantity) * 100.0, 2),
 			currentFlowRate: this.processFlowRate(res),
 			averageFlowRate: this.processAverageFlowRate(res),
-			batchNumber: this.processBatchNumber(res),
+			batchNumber: this.processBatchNumber(res) + 1, // the open sale
 			dispensedQty: this.toFixedNumber(readsale, 2),
+			grossVolume: this.toFixedNumber(sale.grossVolume, 2),
+			netVolume: sale.netVolume === undefined ? undefined : this.toFixedNumber(sale.netVolume, 2),
+			temperature: sale.temperature,
+			unitPrice: sale.unitPrice,
+			amount: sale.amount,
 		};
 	}
 
@@ -445,35 +664,28 @@ export class VeederEmr4 extends BaseDispenser {
 		return await this.sendPreset(quantity);
 	}
 
-	calculateChecksum(headerBytes: any, messageBytes: any) {
-		// Add all header and message bytes
-		let checksum = headerBytes.reduce((sum: any, byte: any) => sum + byte, 0);
-		checksum += messageBytes.reduce((sum: any, byte: any) => sum + byte, 0);
-
-		// Two's complement (invert and add 1)
-		checksum = ~checksum + 1;
-		return checksum & 0xff; // Ensure it's 8-bit
+	/**
+	 * Preset on the compensated volume, the meter stops when the net volume at 15 °C reaches quantity.
+	 */
+	async setNetPreset(quantity: number) {
+		debugLog('setNetPreset: %s', quantity);
+		if (!this.options.atc) throw this.unsupported('setNetPreset');
+		return await this.sendPreset(quantity, 'net');
 	}
 
-	async sendPreset(veederPre: number) {
-		// Header bytes as per protocol
-		const START_BYTE = 0x7e;
-		const HEADER_BYTES = [0x01, 0xff, 0x53, 0x6e];
-
-		// Convert the float to its 4-byte representation
-		const messageBytes = Buffer.alloc(4);
-		messageBytes.writeFloatLE(veederPre);
-
-		// Calculate checksum
-		const checksum = this.calculateChecksum(HEADER_BYTES, [...messageBytes]);
-
-		// Construct the full message
-		const fullMessage = [START_BYTE, ...HEADER_BYTES, ...messageBytes, checksum, START_BYTE];
-
-		debugLog('sendPreset: %s', fullMessage.map((byte) => byte.toString(16).padStart(2, '0')).join(' '));
-		// Write all bytes to the connection at once
-		await this.write(Buffer.from(fullMessage), 'sendPreset');
+	/**
+	 * @param basis net presets go to field 0x6f (unverified, see veeder_read_net_preset), gross ones to 0x6e
+	 */
+	async sendPreset(veederPre: number, basis: 'gross' | 'net' = 'gross') {
+		const data = Buffer.alloc(4);
+		data.writeFloatLE(veederPre);
+		const preset = request(0x53, basis === 'net' ? 0x6f : 0x6e, ...data);
+
+		debugLog('sendPreset: %s', preset.toString('hex'));
+		await this.write(preset, 'sendPreset');
+		const res = await this.dispenserResponse();
+		if (this.isAcknowledged(res)) this.presetBasis = basis;
 		await this.write(this.veeder_resume, 'sendPreset');
-		return await this.dispenserResponse();
+		return res + (await this.dispenserResponse());
 	}
 }
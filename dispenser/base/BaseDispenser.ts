@@ -1,28 +1,65 @@
 import { DispenserOptions, IDispenser } from '../interface/IDispenser';
-import { SerialPort } from 'serialport';
-import { AutoDetectTypes } from '@serialport/bindings-cpp';
+import { ITransport } from '../interface/ITransport';
+import { EventEmitter } from 'events';
+import { ChecksumError, DispenserError, PortClosedError, TimeoutError, UnsupportedOperationError } from '../errors';
+import { delay } from '../../utils/delay';
+import { createTransport } from '../transport/createTransport';
+import { createGpio } from '../gpio/createGpio';
+import { IGpio } from '../interface/IGpio';
 import { InterByteTimeoutParser } from '@serialport/parser-inter-byte-timeout';
+import { Transform } from 'stream';
 import debug from 'debug';
-import { execFile } from 'child_process';
-import * as path from 'path';
+import { createNormalizedStatus, DispenserState, NormalizedStatus } from '../interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from '../interface/DispenserCapabilities';
+import { DispenserReading, watchDispenser, WatchOptions } from '../workflows/watchDispenser';
+import { DispenserApi } from '../workflows/DispenserApi';
+import { Observable } from 'rxjs';
 import { getPubSubLogger, PubSubLogger, MessagePayload } from '../../utils/PubSubLogger';
+import {
+	CommandQueue,
+	DEFAULT_COMMAND_TIMEOUT,
+	DEFAULT_RETRY_POLICY,
+	getCommandClass,
+	getCommandQueue,
+	PRIORITY_COMMANDS,
+	PRIORITY_HIGH,
+	PRIORITY_NORMAL,
+	RetryPolicy,
+} from './CommandQueue';
 
 const debugLog = debug('dispenser:base-dispenser');
 
-export class BaseDispenser implements IDispenser {
-	connection: SerialPort<AutoDetectTypes>;
-	innerByteTimeoutParser: InterByteTimeoutParser;
+type PendingResponse = {
+	handler: (data: any) => void;
+	timer: NodeJS.Timeout;
+	reject: (reason: any) => void;
+};
+
+/**
+ * Events: `disconnected` (error) when the port drops, `reconnected` once commands can flow again.
+ */
+export class BaseDispenser extends EventEmitter implements IDispenser {
+	connection!: ITransport;
+	parser!: Transform;
 	options: DispenserOptions;
+	commandQueue: CommandQueue;
+	private watchers = new Map<string, Observable<DispenserReading>>();
+	private dispenserApi?: DispenserApi;
 	private pubsubLogger?: PubSubLogger;
+	private pendingResponses = new Set<PendingResponse>();
+	private disconnected = false;
+	private closing = false;
+	private reconnectAttempts = 0;
+	private reconnectTimer?: NodeJS.Timeout;
+	private gpioLines?: IGpio;
+	private commandSignal?: AbortSignal; // of the command on the wire, aborted once the queue gave up on it
 	[key: string]: any;
 
-	constructor(socket: SerialPort, options: DispenserOptions) {
-		this.connection = socket;
+	constructor(socket: ITransport, options: DispenserOptions) {
+		super();
 		this.options = options;
-		// Adjust concurrency as needed
-		this.innerByteTimeoutParser = this.connection.pipe(
-			new InterByteTimeoutParser({ interval: options?.interByteTimeoutInterval || 300 })
-		);
+		this.commandQueue = getCommandQueue(socket);
+		this.attachConnection(socket);
 
 		try {
 			const pubsubConfig = this.options.pubsubConfig;
@@ -62,68 +99,196 @@ export class BaseDispenser implements IDispenser {
 		}
 	}
 
+	/**
+	 * Lines switched or read over GPIO, opened from `options.gpio` on first use.
+	 */
+	get gpio(): IGpio {
+		return (this.gpioLines ??= createGpio(this.options?.gpio));
+	}
+
 	dispenserResponse(timeoutMs: number = 20000): Promise<any> {
+		if (this.disconnected) return Promise.reject(new PortClosedError());
 		return new Promise((resolve, reject) => {
 			try {
 				debugLog('dispenserResponse: AWAITING RESPONSE');
 				const handler = (data: any): void => {
-					clearTimeout(timer);
+					clearTimeout(pending.timer);
+					this.pendingResponses.delete(pending);
 					const res = data.toString('hex');
 					debugLog('awaitDispenserResponse: %s', res);
 					this.logDispenserMessage('received', data);
+					if (!this.verifyFrame(data)) return reject(new ChecksumError(`Checksum validation failed: ${res}`, { frame: res }));
 					resolve(res);
 				};
 
-				const timer = setTimeout(() => {
-					this.innerByteTimeoutParser.removeListener('data', handler);
-					debugLog('dispenserResponse: TIMEOUT - listener removed');
-					reject(new Error(`Dispenser response timed out after ${timeoutMs}ms`));
-				}, timeoutMs);
+				const pending: PendingResponse = {
+					handler,
+					reject,
+					timer: setTimeout(() => {
+						this.parser.removeListener('data', handler);
+						this.pendingResponses.delete(pending);
+						debugLog('dispenserResponse: TIMEOUT - listener removed');
+						reject(new TimeoutError(`Dispenser response timed out after ${timeoutMs}ms`));
+					}, timeoutMs),
+				};
 
-				this.innerByteTimeoutParser.once('data', handler);
+				this.pendingResponses.add(pending);
+				this.parser.once('data', handler);
 			} catch (e) {
 				reject(e);
 			}
 		});
 	}
 
-	execute(callee: any, bindFunction?: (...args: any[]) => unknown, calleeArgs: any = undefined): Promise<any> {
-		return new Promise((resolve, reject) => {
-			Promise.resolve(callee.call(this, ...(Array.isArray(calleeArgs) ? calleeArgs : [calleeArgs || undefined])))
-				.then(async (data: any) => {
-					if (bindFunction instanceof Function) {
-						const result = await bindFunction.call(this, data, calleeArgs || undefined, callee.name);
-						debugLog('bindFunction: %s', JSON.stringify(result));
-						resolve(result);
-					} else {
-						resolve(data);
-					}
-				})
-				.catch((err: any) => {
-					reject(err);
-				});
+	/**
+	 * Stop waiting for replies that will never be consumed, so a late frame
+	 * is not handed to the next command in the queue.
+	 */
+	cancelPendingResponses(reason: string | Error) {
+		this.pendingResponses.forEach((pending) => {
+			clearTimeout(pending.timer);
+			this.parser.removeListener('data', pending.handler);
+			pending.reject(reason instanceof Error ? reason : new DispenserError(reason));
 		});
+		this.pendingResponses.clear();
+	}
+
+	/**
+	 * Timeout for a command, from options.commandTimeouts, then options.commandTimeoutMs.
+	 * @param command name of the callee
+	 */
+	getCommandTimeout(command: string): number {
+		return this.options?.commandTimeouts?.[command] || this.options?.commandTimeoutMs || DEFAULT_COMMAND_TIMEOUT;
+	}
+
+	execute(callee: any, bindFunction?: (...args: any[]) => unknown, calleeArgs: any = undefined): Promise<any> {
+		const priority = PRIORITY_COMMANDS.includes(callee?.name) ? PRIORITY_HIGH : PRIORITY_NORMAL;
+		return this.enqueue(callee, bindFunction, calleeArgs, priority);
 	}
 
 	executeWork(strCallee: string, strBindFunction?: string, calleeArgs: any = undefined): Promise<any> {
 		const callee = this[strCallee] as (...args: [any]) => any;
 		const bindFunction = strBindFunction ? this[strBindFunction] : undefined;
-		if (!callee) throw new Error('Invalid callee function');
+		if (!callee) throw this.unsupported(strCallee);
 		if (bindFunction && !(bindFunction instanceof Function)) throw new Error('Invalid Bind function');
 		return this.execute(callee, bindFunction, calleeArgs);
 	}
 
 	executeInPriority(callee: any, bindFunction: any = undefined, calleeArgs: any = undefined): Promise<any> {
-		return this.execute(callee, bindFunction, calleeArgs);
+		return this.enqueue(callee, bindFunction, calleeArgs, PRIORITY_HIGH);
+	}
+
+	/**
+	 * Typed commands, each paired with the parser for its reply.
+	 */
+	get api(): DispenserApi {
+		return (this.dispenserApi ??= new DispenserApi(this));
+	}
+
+	/**
+	 * Features of the dispenser, drivers list the ones they support.
+	 */
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities();
+	}
+
+	hasExternalPump(): boolean {
+		return this.getCapabilities().externalPump;
+	}
+
+	/**
+	 * Error for a feature the dispenser does not have, thrown instead of answering with a made up value.
+	 */
+	protected unsupported(command: string): UnsupportedOperationError {
+		return new UnsupportedOperationError(`${command} is not supported by ${this.options?.dispenserType}`, { command });
+	}
+
+	/**
+	 * Drop every command still waiting in the queue and stop waiting on the one in flight.
+	 */
+	resetQueue() {
+		debugLog('resetQueue: %d commands waiting', this.commandQueue.length());
+		this.commandQueue.reset('Command queue reset', this);
+		this.cancelPendingResponses('Command queue reset');
+	}
+
+	/**
+	 * Read the status and map it to the driver independent model.
+	 * A dispenser that does not answer is reported as Offline instead of throwing.
+	 */
+	async readNormalizedStatus(): Promise<NormalizedStatus> {
+		if (!(this.normalizeStatus instanceof Function)) {
+			throw new UnsupportedOperationError(`normalizeStatus is not implemented for ${this.options?.dispenserType}`, { command: 'normalizeStatus' });
+		}
+
+		try {
+			return await this.execute(this.readStatus, this.normalizeStatus);
+		} catch (error: any) {
+			if (error instanceof TimeoutError || error instanceof PortClosedError) {
+				debugLog('readNormalizedStatus: %s', error.message);
+				return createNormalizedStatus(DispenserState.Offline, error.message);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Live status/volume stream, one shared polling loop per interval.
+	 */
+	watch(options: WatchOptions = {}): Observable<DispenserReading> {
+		const key = `${options.intervalMs || 1000}:${options.maxBackoffMs || 30000}`;
+		if (!this.watchers.has(key)) {
+			this.watchers.set(key, watchDispenser(this, options));
+		}
+		return this.watchers.get(key)!;
+	}
+
+	protected enqueue(callee: any, bindFunction: any, calleeArgs: any, priority: number): Promise<any> {
+		const command = callee?.name || 'anonymous';
+		return this.commandQueue.push(
+			{
+				command,
+				timeoutMs: this.getCommandTimeout(command),
+				owner: this,
+				onTimeout: () => {
+					this.cancelPendingResponses(new TimeoutError(`Command ${command} timed out`, { command }));
+				},
+				run: async (signal) => {
+					this.commandSignal = signal;
+					try {
+						const args = Array.isArray(calleeArgs) ? calleeArgs : [calleeArgs || undefined];
+						const data = await this.callWithRetry(callee, args, () => signal.aborted);
+						if (bindFunction instanceof Function) {
+							const result = await bindFunction.call(this, data, calleeArgs || undefined, callee.name);
+							debugLog('bindFunction: %s', JSON.stringify(result));
+							return result;
+						}
+						return data;
+					} catch (error) {
+						if (error instanceof DispenserError) error.command ??= command;
+						throw error;
+					} finally {
+						if (this.commandSignal === signal) this.commandSignal = undefined;
+					}
+				},
+			},
+			priority
+		);
 	}
 
 	async disconnect(callback: any) {
 		debugLog('disconnect: %s', 'Requesting disconnection from Seneca');
 
+		this.closing = true;
+		clearTimeout(this.reconnectTimer);
+		this.resetQueue();
+
 		if (this.pubsubLogger) {
 			await this.pubsubLogger.flush();
 		}
 
+		await this.gpioLines?.close();
+
 		const connection = await this.connection;
 
 		connection.close(async () => {
@@ -140,11 +305,148 @@ export class BaseDispenser implements IDispenser {
 	}
 
 	protected async write(data: Buffer | string, command?: string): Promise<boolean> {
+		if (this.disconnected) throw new PortClosedError(`Dispenser port is disconnected, ${command || 'command'} not sent`);
+		if (this.commandSignal?.aborted) throw new TimeoutError(`Command timed out, ${command || 'write'} not sent`, { command });
 		const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'hex');
 		await this.logDispenserMessage('sent', buffer, command);
 		return await this.connection.write(buffer);
 	}
 
+	/**
+	 * Checks the checksum of a received frame, drivers override with their protocol's.
+	 * Frames that cannot be checked (unframed, plain acknowledgements) pass.
+	 */
+	verifyFrame(_frame: Buffer): boolean {
+		return true;
+	}
+
+	/**
+	 * Retry policy for a command, options.retryPolicy over the defaults of its class (read or write).
+	 * @param command name of the callee
+	 */
+	getRetryPolicy(command: string): RetryPolicy {
+		const commandClass = getCommandClass(command);
+		return { ...DEFAULT_RETRY_POLICY[commandClass], ...this.options?.retryPolicy?.[commandClass] };
+	}
+
+	/**
+	 * Sends the command again on retryable errors, as far as its retry policy allows
+	 * and never after the queue gave up on it.
+	 */
+	private async callWithRetry(callee: any, args: any[], cancelled: () => boolean) {
+		const policy = this.getRetryPolicy(callee?.name || '');
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await callee.call(this, ...args);
+			} catch (error) {
+				if (!(error instanceof DispenserError) || !error.retryable || attempt >= policy.retries || cancelled()) throw error;
+				const backoff = Math.min(policy.backoffMs * 2 ** attempt, policy.maxBackoffMs);
+				debugLog('%s: %s, retry %d in %d ms', callee.name, error.message, attempt + 1, backoff);
+				await delay(backoff);
+				if (cancelled()) throw error;
+			}
+		}
+	}
+
+	get isConnected() {
+		return !this.disconnected;
+	}
+
+	/**
+	 * Splits the byte stream into replies. Drivers return their protocol's frame parser,
+	 * the default cuts on inter byte silence.
+	 */
+	protected createParser(): Transform {
+		return new InterByteTimeoutParser({ interval: this.options?.interByteTimeoutInterval || 300 });
+	}
+
+	/**
+	 * Take over a transport: pipe it through the frame parser and follow its state.
+	 */
+	protected attachConnection(connection: ITransport) {
+		this.connection = connection;
+		this.parser = connection.pipe(this.createParser());
+		connection.on('close', this.handleClose);
+		connection.on('error', this.handleError);
+		connection.on('disconnect', this.handleDisconnect);
+		connection.on('reconnect', this.handleReconnect);
+	}
+
+	protected detachConnection(connection: ITransport) {
+		connection.unpipe(this.parser);
+		connection.removeListener('close', this.handleClose);
+		connection.removeListener('error', this.handleError);
+		connection.removeListener('disconnect', this.handleDisconnect);
+		connection.removeListener('reconnect', this.handleReconnect);
+	}
+
+	/**
+	 * Opens a fresh transport after the old one died, the USB adapter may have re-enumerated under a new path.
+	 */
+	protected openConnection(): Promise<ITransport> {
+		return createTransport(this.options);
+	}
+
+	private handleClose = () => {
+		if (this.closing) return;
+		this.handleDisconnect();
+		this.scheduleReconnect();
+	};
+
+	private handleError = (error: Error) => {
+		debugLog('connection error: %s', error.message);
+		if (!this.connection.isOpen) this.handleClose();
+	};
+
+	/* Transports that heal themselves (tcp) only report the gap */
+	private handleDisconnect = () => {
+		if (this.disconnected) return;
+		this.disconnected = true;
+		const error = new PortClosedError();
+		debugLog('disconnected: %s', this.options?.dispenserType);
+		this.cancelPendingResponses(error);
+		this.emit('disconnected', error);
+	};
+
+	private handleReconnect = () => {
+		this.disconnected = false;
+		this.reconnectAttempts = 0;
+		debugLog('reconnected: %s', this.options?.dispenserType);
+		this.emit('reconnected');
+	};
+
+	private scheduleReconnect() {
+		if (this.reconnectTimer) return;
+		const interval = Math.min(
+			(this.options?.reconnectIntervalMs || 1000) * 2 ** this.reconnectAttempts++,
+			this.options?.maxReconnectIntervalMs || 30000
+		);
+		debugLog('reconnect in %d ms', interval);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.reconnect().catch((error) => {
+				debugLog('reconnect failed: %s', error.message);
+				if (!this.closing) this.scheduleReconnect();
+			});
+		}, interval);
+		this.reconnectTimer.unref?.();
+	}
+
+	private async reconnect() {
+		const connection = await this.openConnection();
+		if (!connection.isOpen) {
+			await new Promise((resolve, reject) => {
+				connection.once('open', resolve);
+				connection.once('error', reject);
+			});
+		}
+		if (this.closing) return connection.close();
+
+		this.detachConnection(this.connection);
+		this.attachConnection(connection);
+		this.handleReconnect();
+	}
+
 	/**
 	 * Splitter for string from last
 	 * @param str
@@ -249,27 +551,4 @@ export class BaseDispenser implements IDispenser {
 			.map((byte) => byte.toString(16).padStart(2, '0'))
 			.join('');
 	}
-
-	// Function to execute a shell script and check if the result is "true"
-	executeShellScriptAndCheck(scriptPath: string): Promise<boolean> {
-		const absoluteScriptPath = path.join(__dirname, scriptPath);
-		debugLog('Executing script: %s', absoluteScriptPath);
-
-		return new Promise((resolve, reject) => {
-			execFile(absoluteScriptPath, (error, stdout, stderr) => {
-				debugLog('stdout: %s', stdout);
-				debugLog('stderr: %s', stderr);
-				debugLog('error: %s', error);
-				if (error) {
-					// If there's an error, consider the script execution unsuccessful
-					debugLog('Console: %s', stderr);
-					debugLog('Error: %s', error);
-					reject(false);
-				} else {
-					// If the script output is "true", consider the script execution successful
-					resolve(stdout.trim() == 'true');
-				}
-			});
-		});
-	}
 }
@@ -0,0 +1,161 @@
+import { AsyncPriorityQueue, priorityQueue } from 'async';
+import debug from 'debug';
+import { DispenserError, TimeoutError } from '../errors';
+
+const debugLog = debug('dispenser:command-queue');
+
+export const PRIORITY_HIGH = 0;
+export const PRIORITY_NORMAL = 1;
+
+export const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+// commands that must never wait behind polling reads
+export const PRIORITY_COMMANDS = ['pumpStop', 'stopPump', 'suspendSale', 'suspendDispencer'];
+// side effect free, safe to send again, everything else counts as a write
+export const READ_COMMANDS = [
+	'totalizer',
+	'readStatus',
+	'readDispencerStatus',
+	'readSale',
+	'readPreset',
+	'readUnitPrice',
+	'readTemperature',
+	'netTotalizer',
+	'scanBus',
+	'readPrinterStatus',
+	'readAuthorization',
+	'readAuth',
+	'readExternalPumpStatus',
+	'elockStatus',
+];
+
+export type CommandClass = 'read' | 'write';
+
+export type RetryPolicy = {
+	retries: number;
+	backoffMs: number; // wait before the first retry, doubles on each further one
+	maxBackoffMs: number;
+};
+
+// writes move fuel and money, a lost reply must not start a second delivery
+export const DEFAULT_RETRY_POLICY: { [commandClass in CommandClass]: RetryPolicy } = {
+	read: { retries: 2, backoffMs: 50, maxBackoffMs: 1000 },
+	write: { retries: 0, backoffMs: 0, maxBackoffMs: 0 },
+};
+
+export function getCommandClass(command: string): CommandClass {
+	return READ_COMMANDS.includes(command) ? 'read' : 'write';
+}
+
+export type CommandTask = {
+	command: string;
+	timeoutMs: number;
+	run: (signal: AbortSignal) => Promise<any>; // signal aborts once the queue gave up on the command
+	onTimeout?: () => void;
+	owner?: object; // dispenser that queued it, several can share a queue on a bus
+};
+
+type QueuedCommand = CommandTask & {
+	resolve: (value: any) => void;
+	reject: (reason: any) => void;
+};
+
+/**
+ * Serialized command queue for a single port.
+ * Only one command is on the wire at a time, so every write gets its own reply.
+ * Stop/suspend style commands jump ahead of normal ones through the priority lane.
+ * A command that times out is rejected at once, the next one still waits until it settles.
+ */
+export class CommandQueue {
+	private queue: AsyncPriorityQueue<QueuedCommand>;
+	private waiting = new Set<QueuedCommand>();
+
+	constructor() {
+		// worker is callback style as async/await is transpiled and not detected as AsyncFunction by async
+		this.queue = priorityQueue<QueuedCommand>((task, callback) => {
+			this.process(task).then(() => callback());
+		}, 1);
+	}
+
+	push(task: CommandTask, priority: number = PRIORITY_NORMAL): Promise<any> {
+		return new Promise((resolve, reject) => {
+			const queued: QueuedCommand = { ...task, resolve, reject };
+			this.waiting.add(queued);
+			debugLog('push: %s (priority %d, %d waiting)', task.command, priority, this.waiting.size);
+			this.queue.push(queued, priority);
+		});
+	}
+
+	/**
+	 * number of commands waiting to be sent, not counting the one in flight
+	 */
+	length(): number {
+		return this.queue.length();
+	}
+
+	isIdle(): boolean {
+		return this.queue.idle();
+	}
+
+	/**
+	 * drop every command that has not been sent yet and reject its caller
+	 * @param owner only drop the commands of this dispenser
+	 */
+	reset(reason: string = 'Command queue reset', owner?: object) {
+		const dropped = Array.from(this.waiting).filter((task) => !owner || task.owner === owner);
+		debugLog('reset: dropping %d commands', dropped.length);
+		dropped.forEach((task) => this.waiting.delete(task));
+		this.queue.remove(({ data }) => dropped.includes(data));
+		dropped.forEach((task) => task.reject(new DispenserError(`${reason}: ${task.command} not sent`, { command: task.command })));
+	}
+
+	private async process(task: QueuedCommand) {
+		this.waiting.delete(task);
+		debugLog('process: %s', task.command);
+
+		const controller = new AbortController();
+		let timer: NodeJS.Timeout | undefined;
+		const timeout = new Promise((_, reject) => {
+			timer = setTimeout(() => {
+				debugLog('process: %s timed out after %dms', task.command, task.timeoutMs);
+				controller.abort();
+				if (task.onTimeout) task.onTimeout();
+				reject(new TimeoutError(`Command ${task.command} timed out after ${task.timeoutMs}ms`, { command: task.command }));
+			}, task.timeoutMs);
+		});
+
+		const running = task.run(controller.signal);
+		try {
+			task.resolve(await Promise.race([running, timeout]));
+		} catch (error) {
+			task.reject(error);
+		} finally {
+			clearTimeout(timer);
+		}
+
+		// a callee that writes more than once must not write after the next command is on the wire
+		await running.catch(() => undefined);
+	}
+}
+
+const queues = new WeakMap<object, CommandQueue>();
+
+/**
+ * One queue per physical port, shared by every dispenser instance talking on it.
+ * @param port serial port or modbus socket object
+ */
+export function getCommandQueue(port: object): CommandQueue {
+	let queue = queues.get(port);
+	if (!queue) {
+		queue = new CommandQueue();
+		queues.set(port, queue);
+	}
+	return queue;
+}
+
+/**
+ * Make port use the queue of another port, for pumps that talk through channels of one bus.
+ */
+export function shareCommandQueue(port: object, owner: object) {
+	queues.set(port, getCommandQueue(owner));
+}
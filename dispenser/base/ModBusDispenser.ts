@@ -1,58 +1,171 @@
 import { DispenserOptions, IDispenser, TotalizerResponse } from '../interface/IDispenser';
-// import { QueueObject, queue } from 'async';
 import { SerialPort } from 'serialport';
 import { AutoDetectTypes } from '@serialport/bindings-cpp';
-import { execFile } from 'child_process';
-import * as path from 'path';
 import { Seneca } from '../workflows/GateX';
 import { promises as fs } from 'fs';
 import debug from 'debug';
+import { createNormalizedStatus, DispenserState, NormalizedStatus } from '../interface/DispenserState';
+import { createCapabilities, DispenserCapabilities } from '../interface/DispenserCapabilities';
+import { DispenserReading, watchDispenser, WatchOptions } from '../workflows/watchDispenser';
+import { DispenserApi } from '../workflows/DispenserApi';
+import { Observable } from 'rxjs';
+import {
+	CommandQueue,
+	DEFAULT_COMMAND_TIMEOUT,
+	DEFAULT_RETRY_POLICY,
+	getCommandClass,
+	getCommandQueue,
+	PRIORITY_COMMANDS,
+	PRIORITY_HIGH,
+	PRIORITY_NORMAL,
+	RetryPolicy,
+} from './CommandQueue';
 
-import ModbusRTU from 'modbus-serial';
+import { ChecksumError, DispenserError, NakError, PortClosedError, TimeoutError, UnsupportedOperationError } from '../errors';
+import { delay } from '../../utils/delay';
+import { createGpio } from '../gpio/createGpio';
+import { IGpio } from '../interface/IGpio';
 
 /**
  * TODO: [TECH DEBT][IDEV-1272]
  * There are few methods, like str2hex that are being re-declared in BaseDispenser and ModBusDispenser. This is not a good practice. We should refactor this to avoid code duplication.
  */
 const debugLog = debug('dispenser:modbus-dispenser');
+
+/**
+ * Maps a modbus-serial failure onto the dispenser errors, it reports them as plain objects with an errno.
+ */
+function toDispenserError(error: any): DispenserError {
+	if (error instanceof DispenserError) return error;
+	const message = error?.message || String(error);
+	// socket errors of the tcp client carry their errno name in code
+	const errno = typeof error?.errno === 'string' ? error.errno : error?.code;
+	if (errno === 'ETIMEDOUT') return new TimeoutError(`Modbus response timed out: ${message}`);
+	if (['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'ENOTFOUND', 'EPIPE'].includes(errno)) {
+		return new PortClosedError(`Modbus port is closed: ${message}`);
+	}
+	if (error?.modbusCode !== undefined) return new NakError(message);
+	// modbus-serial only tells a damaged reply apart by its message
+	if (message === 'CRC error') return new ChecksumError('Modbus reply failed its CRC');
+	return new DispenserError(message);
+}
+
 export class ModBusDispenser implements IDispenser {
 	connection: Promise<Seneca>;
 	printer?: SerialPort<AutoDetectTypes>;
 	pulseInterval?: NodeJS.Timeout;
+	commandQueue: CommandQueue;
+	private watchers = new Map<string, Observable<DispenserReading>>();
+	private dispenserApi?: DispenserApi;
+	options?: DispenserOptions;
+	private gpioLines?: IGpio;
+	private connected = false;
+	private closing = false;
+	private reconnectAttempts = 0;
+	private reconnectTimer?: NodeJS.Timeout;
 	// config: WorkflowConfig;
 	// host: IWorkflowHost;
 
 	[key: string]: any;
 
 	constructor(socket: Seneca, printer?: SerialPort, options?: DispenserOptions) {
-		const _that = this;
 		this.printer = printer;
-		this.connection = new Promise<Seneca>((resolve) => {
-			const client = new ModbusRTU();
-			client.setID(socket.deviceId);
-			client.setTimeout(socket.timeout);
-			client.connectRTU(socket.address, { baudRate: socket.baudRate }).then(async () => {
-				socket.client = client;
-				const overflowCounterBuffer = await client.readHoldingRegisters(socket.overflowRegister, 1);
-				const overCount = overflowCounterBuffer.buffer.readUInt16BE(0);
-				socket.overflowCount = overCount;
-				socket.overflowOffset = 4294967296 * overCount;
-
-				_that.pulseInterval = setInterval(async function () {
-					const pulseCounter = await client.readHoldingRegisters(socket.pulseRegister, 2);
-					const currentPulse = pulseCounter.buffer.readUInt32BE(0);
-					if (currentPulse < socket.pulseCount) {
-						debugLog('ReadPulseCounter: %s', '<< ===== Overflow Detected ===== >>');
-						const response = await client.writeRegister(socket.overflowRegister, ++socket.overflowCount);
-						socket.overflowOffset = 4294967296 * socket.overflowCount;
-					}
-					socket.previousPulseCount = socket.pulseCount;
-					socket.pulseCount = currentPulse;
-				}, 500);
-
-				resolve(socket);
-			});
+		this.options = options;
+		this.commandQueue = getCommandQueue(socket);
+		this.connection = this.connect(socket);
+		this.connection.catch((error) => {
+			debugLog('connect failed: %s', error.message);
+			if (socket.tcp) this.scheduleReconnect(socket);
 		});
+		// the gateway can drop the socket at any time, a serial port stays where it is
+		if (socket.tcp) socket.client.on('close', () => this.handleClose(socket));
+	}
+
+	/**
+	 * Open the modbus client, read the overflow counter and start polling the pulse counter.
+	 * @throws DispenserError mapped from the modbus-serial failure
+	 */
+	private async connect(socket: Seneca): Promise<Seneca> {
+		const client = socket.client;
+		client.setID(socket.deviceId);
+		client.setTimeout(socket.timeout);
+		try {
+			if (socket.tcp) {
+				await client.connectTcpRTUBuffered(socket.tcp.host, { port: socket.tcp.port });
+			} else {
+				await client.connectRTU(socket.address, { baudRate: socket.baudRate });
+			}
+			const overflowCounterBuffer = await client.readHoldingRegisters(socket.overflowRegister, 1);
+			const overCount = overflowCounterBuffer.buffer.readUInt16BE(0);
+			socket.overflowCount = overCount;
+			socket.overflowOffset = 4294967296 * overCount;
+		} catch (error) {
+			throw toDispenserError(error);
+		}
+
+		if (this.pulseInterval) clearInterval(this.pulseInterval);
+		this.pulseInterval = setInterval(async function () {
+			try {
+				const pulseCounter = await client.readHoldingRegisters(socket.pulseRegister, 2);
+				const currentPulse = pulseCounter.buffer.readUInt32BE(0);
+				if (currentPulse < socket.pulseCount) {
+					debugLog('ReadPulseCounter: %s', '<< ===== Overflow Detected ===== >>');
+					const response = await client.writeRegister(socket.overflowRegister, ++socket.overflowCount);
+					socket.overflowOffset = 4294967296 * socket.overflowCount;
+				}
+				socket.previousPulseCount = socket.pulseCount;
+				socket.pulseCount = currentPulse;
+			} catch (error) {
+				// the next poll reads the counter again, a missed one only delays the reading
+				debugLog('ReadPulseCounter: %s', toDispenserError(error).message);
+			}
+		}, 500);
+
+		this.connected = true;
+		return socket;
+	}
+
+	/* commands fail at once with PortClosedError until the gateway is back */
+	private handleClose(socket: Seneca) {
+		if (this.closing || !this.connected) return;
+		this.connected = false;
+		debugLog('disconnected: %s', socket.tcp?.host);
+		if (this.pulseInterval) clearInterval(this.pulseInterval);
+		this.connection = Promise.reject(new PortClosedError('Seneca gateway connection dropped'));
+		this.connection.catch(() => undefined);
+		this.scheduleReconnect(socket);
+	}
+
+	private scheduleReconnect(socket: Seneca) {
+		if (this.reconnectTimer || this.closing) return;
+		const interval = Math.min(
+			(this.options?.reconnectIntervalMs || 1000) * 2 ** this.reconnectAttempts++,
+			this.options?.maxReconnectIntervalMs || 30000
+		);
+		debugLog('reconnect in %d ms', interval);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			const connection = this.connect(socket);
+			connection.then(
+				() => {
+					this.reconnectAttempts = 0;
+					this.connection = connection;
+					debugLog('reconnected: %s', socket.tcp?.host);
+				},
+				(error) => {
+					debugLog('reconnect failed: %s', error.message);
+					this.scheduleReconnect(socket);
+				}
+			);
+		}, interval);
+		this.reconnectTimer.unref?.();
+	}
+
+	/**
+	 * Lines switched or read over GPIO, opened from `options.gpio` on first use.
+	 */
+	get gpio(): IGpio {
+		return (this.gpioLines ??= createGpio(this.options?.gpio));
 	}
 
 	hexToDecLittleEndian(hexString: string): number {
@@ -68,54 +181,159 @@ export class ModBusDispenser implements IDispenser {
 		return decimalValue;
 	}
 
-	async processTaskMTU(task: any) {
+	async processTaskMTU(task: any, signal?: AbortSignal) {
 		const { bindFunction, callee, calleeArgs } = task;
-		const data = await callee.call(this, calleeArgs || undefined);
-		if (bindFunction instanceof Function) {
-			const result = bindFunction.call(this, data, calleeArgs || undefined, callee.name);
-			debugLog('bindFunction: %s', JSON.stringify(result));
-			return result;
-		} else {
-			return data;
+		const command = callee?.name || 'anonymous';
+		try {
+			const data = await this.callWithRetry(callee, calleeArgs || undefined, () => Boolean(signal?.aborted));
+			if (bindFunction instanceof Function) {
+				const result = await bindFunction.call(this, data, calleeArgs || undefined, callee.name);
+				debugLog('bindFunction: %s', JSON.stringify(result));
+				return result;
+			} else {
+				return data;
+			}
+		} catch (error) {
+			const dispenserError = toDispenserError(error);
+			dispenserError.command ??= command;
+			throw dispenserError;
 		}
 	}
 
+	/**
+	 * Retry policy for a command, options.retryPolicy over the defaults of its class (read or write).
+	 * @param command name of the callee
+	 */
+	getRetryPolicy(command: string): RetryPolicy {
+		const commandClass = getCommandClass(command);
+		return { ...DEFAULT_RETRY_POLICY[commandClass], ...this.options?.retryPolicy?.[commandClass] };
+	}
+
+	/**
+	 * Calls the command again on retryable errors, as far as its retry policy allows
+	 * and never after the queue gave up on it.
+	 */
+	private async callWithRetry(callee: any, calleeArgs: any, cancelled: () => boolean) {
+		const policy = this.getRetryPolicy(callee?.name || '');
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await callee.call(this, calleeArgs);
+			} catch (cause) {
+				const error = toDispenserError(cause);
+				if (!error.retryable || attempt >= policy.retries || cancelled()) throw error;
+				const backoff = Math.min(policy.backoffMs * 2 ** attempt, policy.maxBackoffMs);
+				debugLog('%s: %s, retry %d in %d ms', callee.name, error.message, attempt + 1, backoff);
+				await delay(backoff);
+				if (cancelled()) throw error;
+			}
+		}
+	}
+
+	getCommandTimeout(command: string): number {
+		return this.options?.commandTimeouts?.[command] || this.options?.commandTimeoutMs || DEFAULT_COMMAND_TIMEOUT;
+	}
+
 	execute(callee: any, bindFunction?: (...args: any[]) => unknown, calleeArgs: any = undefined): Promise<any> {
-		return new Promise((resolve, reject) => {
-			Promise.resolve(callee.call(this, calleeArgs || undefined))
-				.then(async (data: any) => {
-					if (bindFunction instanceof Function) {
-						const result = await bindFunction.call(this, data, calleeArgs || undefined, callee.name);
-						debugLog('bindFunction: %s', JSON.stringify(result));
-						resolve(result);
-					} else {
-						resolve(data);
-					}
-				})
-				.catch((err: any) => {
-					reject(err);
-				});
-		});
+		const priority = PRIORITY_COMMANDS.includes(callee?.name) ? PRIORITY_HIGH : PRIORITY_NORMAL;
+		return this.enqueue(callee, bindFunction, calleeArgs, priority);
 	}
 
 	executeWork(strCallee: string, strBindFunction?: string, calleeArgs: any = undefined): Promise<any> {
 		const callee = this[strCallee] as (...args: [any]) => any;
 		const bindFunction = strBindFunction ? this[strBindFunction] : undefined;
-		if (!callee) throw new Error('Invalid callee function');
+		if (!callee) throw this.unsupported(strCallee);
 		if (bindFunction && !(bindFunction instanceof Function)) throw new Error('Invalid Bind function');
 		return this.execute(callee, bindFunction, calleeArgs);
 	}
 
 	executeInPriority(callee: any, bindFunction: any = undefined, calleeArgs: any = undefined): Promise<any> {
-		return this.execute(callee, bindFunction, calleeArgs);
+		return this.enqueue(callee, bindFunction, calleeArgs, PRIORITY_HIGH);
+	}
+
+	/**
+	 * Typed commands, each paired with the parser for its reply.
+	 */
+	get api(): DispenserApi {
+		return (this.dispenserApi ??= new DispenserApi(this));
+	}
+
+	/**
+	 * Features of the dispenser, drivers list the ones they support.
+	 */
+	getCapabilities(): DispenserCapabilities {
+		return createCapabilities();
+	}
+
+	hasExternalPump(): boolean {
+		return this.getCapabilities().externalPump;
+	}
+
+	/**
+	 * Error for a feature the dispenser does not have, thrown instead of answering with a made up value.
+	 */
+	protected unsupported(command: string): UnsupportedOperationError {
+		return new UnsupportedOperationError(`${command} is not supported by ${this.options?.dispenserType}`, { command });
+	}
+
+	resetQueue() {
+		debugLog('resetQueue: %d commands waiting', this.commandQueue.length());
+		this.commandQueue.reset();
+	}
+
+	/**
+	 * Read the status and map it to the driver independent model.
+	 * A dispenser that does not answer is reported as Offline instead of throwing.
+	 */
+	async readNormalizedStatus(): Promise<NormalizedStatus> {
+		if (!(this.normalizeStatus instanceof Function)) {
+			throw new UnsupportedOperationError(`normalizeStatus is not implemented for ${this.options?.dispenserType}`, { command: 'normalizeStatus' });
+		}
+
+		try {
+			return await this.execute(this.readStatus, this.normalizeStatus);
+		} catch (error: any) {
+			if (error instanceof TimeoutError || error instanceof PortClosedError) {
+				debugLog('readNormalizedStatus: %s', error.message);
+				return createNormalizedStatus(DispenserState.Offline, error.message);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Live status/volume stream, one shared polling loop per interval.
+	 */
+	watch(options: WatchOptions = {}): Observable<DispenserReading> {
+		const key = `${options.intervalMs || 1000}:${options.maxBackoffMs || 30000}`;
+		if (!this.watchers.has(key)) {
+			this.watchers.set(key, watchDispenser(this, options));
+		}
+		return this.watchers.get(key)!;
+	}
+
+	protected enqueue(callee: any, bindFunction: any, calleeArgs: any, priority: number): Promise<any> {
+		const command = callee?.name || 'anonymous';
+		return this.commandQueue.push(
+			{
+				command,
+				timeoutMs: this.getCommandTimeout(command),
+				run: async (signal) => this.processTaskMTU({ callee, bindFunction, calleeArgs }, signal),
+			},
+			priority
+		);
 	}
 
 	async disconnect(callback: any) {
 		debugLog('disconnect: %s', 'Requesting disconnection from Seneca');
-		const connection = await this.connection;
+		this.resetQueue();
+		this.closing = true;
+		clearTimeout(this.reconnectTimer);
+		const connection = await this.connection.catch(() => undefined);
 		if (this.pulseInterval) clearInterval(this.pulseInterval);
+		await this.gpioLines?.close();
 
-		connection.client.close(async () => {
+		const close = (done: () => void) => (connection ? connection.client.close(done) : done());
+		close(async () => {
 			if (!this.printer) {
 				debugLog('disconnect: %s', 'No printer connection found');
 				return callback();
@@ -165,24 +383,4 @@ export class ModBusDispenser implements IDispenser {
 		debugLog('Successfully read object from file: %o', obj);
 		return obj as TotalizerResponse;
 	}
-
-	// Function to execute a shell script and check if the result is "true"
-	async executeShellScriptAndCheck(scriptPath: string): Promise<boolean> {
-		const absoluteScriptPath = path.join(__dirname, scriptPath);
-		debugLog('Executing script: %s', absoluteScriptPath);
-
-		return new Promise((resolve, reject) => {
-			execFile(absoluteScriptPath, (error, stdout, stderr) => {
-				if (error) {
-					// If there's an error, consider the script execution unsuccessful
-					debugLog('Console: %s', stderr);
-					debugLog('Error: %s', error);
-					resolve(false);
-				} else {
-					// If the script output is "true", consider the script execution successful
-					resolve(stdout.trim() === 'true');
-				}
-			});
-		});
-	}
 }
@@ -0,0 +1,102 @@
+import debug from 'debug';
+import { registerDispenserDriver } from '../utils/driverRegistry';
+import { findDispenserPort } from '../utils/findDispenserPort';
+import { delay } from '../utils/delay';
+import { parseIsoilAddress, parseTokhiemAddress } from '../utils/pumpAddress';
+import { createPrinterPort, createTransport } from './transport/createTransport';
+import { Seneca } from './workflows/GateX';
+import { DispenserOptions } from './interface/IDispenser';
+import { GpioPins } from './interface/IGpio';
+
+const debugLog = debug('dispenser:drivers');
+
+/* Built-in dispenser drivers, each module is only imported when that type is created */
+
+function checkFlags(options: DispenserOptions, fields: ('ticketPrinter' | 'atc')[]): string[] {
+	return fields
+		.filter((field) => options[field] !== undefined && typeof options[field] !== 'boolean')
+		.map((field) => `${field}: expected true or false, got ${options[field]}`);
+}
+
+/* a pin the driver never switches is a wiring mistake, not something to ignore, pins left undefined are not set */
+function checkUnusedPins(options: DispenserOptions, used: keyof GpioPins): string[] {
+	return Object.entries(options.gpio?.pins || {})
+		.filter(([pin, value]) => pin !== used && value !== undefined)
+		.map(([pin]) => `gpio.pins.${pin}: not used by ${options.dispenserType}, it only reads or drives gpio.pins.${used}`);
+}
+
+registerDispenserDriver(
+	'Tokhiem',
+	async (options) => {
+		const { Tokhiem } = await import('./Tokhiem');
+		return new Tokhiem(await createTransport(options), options);
+	},
+	{
+		transports: ['serial', 'tcp'],
+		validateOptions: (options) =>
+			Number.isNaN(parseTokhiemAddress(options.pumpAddress))
+				? [`pumpAddress: expected a pump letter A-Z or number 1-26, got "${options.pumpAddress}"`]
+				: [],
+	}
+);
+
+registerDispenserDriver(
+	'VeederEmr4',
+	async (options) => {
+		const { VeederEmr4 } = await import('./VeederEmr4');
+		return new VeederEmr4(await createTransport(options), options);
+	},
+	{
+		transports: ['serial', 'tcp'],
+		validateOptions: (options) => [...checkFlags(options, ['ticketPrinter', 'atc']), ...checkUnusedPins(options, 'pump')],
+	}
+);
+
+registerDispenserDriver(
+	'IsoilVegaTVersion10',
+	async (options) => {
+		const { IsoilVegaTVersion10 } = await import('./IsoilVegaTVersion10');
+		return new IsoilVegaTVersion10(await createTransport(options), options);
+	},
+	{
+		transports: ['serial', 'tcp'],
+		validateOptions: (options) =>
+			Number.isNaN(parseIsoilAddress(options.pumpAddress)) ? [`pumpAddress: expected a device address 1-999, got "${options.pumpAddress}"`] : [],
+	}
+);
+
+registerDispenserDriver(
+	'TCS3000',
+	async (options) => {
+		const { TCS3000 } = await import('./TCS3000');
+		const printerPort = await createPrinterPort(options.printer!);
+		return new TCS3000(await createTransport(options), printerPort, options);
+	},
+	{ transports: ['serial', 'tcp'], requiresPrinter: true }
+);
+
+registerDispenserDriver(
+	'GateX',
+	async (options) => {
+		const { GateX } = await import('./GateX');
+		const seneca = new Seneca(options);
+		if (options.transport?.type !== 'tcp') {
+			seneca.address = options.transport?.path || (await findDispenserPort(options.hardwareId, options.attributeId));
+			debugLog('Dispenser found at: %o', seneca.address);
+		}
+		const printerPort = await createPrinterPort(options.printer!);
+		const gatex = new GateX(seneca, printerPort, options);
+		await delay(5000);
+		return gatex;
+	},
+	{ transports: ['serial', 'tcp'], requiresPrinter: true }
+);
+
+registerDispenserDriver(
+	'Neogi',
+	async (options) => {
+		const { Neogi } = await import('./Neogi');
+		return new Neogi(await createTransport(options), options);
+	},
+	{ transports: ['serial', 'tcp'], validateOptions: (options) => checkUnusedPins(options, 'nozzle') }
+);
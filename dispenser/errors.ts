@@ -0,0 +1,87 @@
+export type DispenserErrorDetails = {
+	command?: string; // driver method that failed, filled in by the command queue when the driver does not know it
+	frame?: string; // raw reply as hex
+};
+
+/**
+ * Base of every failure reported by a dispenser command.
+ * `retryable` tells the retry policy whether sending the same read again can help.
+ */
+export class DispenserError extends Error {
+	command?: string;
+	frame?: string;
+	readonly retryable: boolean = false;
+
+	constructor(message: string, details: DispenserErrorDetails = {}) {
+		super(message);
+		this.name = 'DispenserError';
+		this.command = details.command;
+		this.frame = details.frame;
+	}
+}
+
+/**
+ * No reply within the command or response timeout.
+ */
+export class TimeoutError extends DispenserError {
+	readonly retryable = true;
+
+	constructor(message: string, details: DispenserErrorDetails = {}) {
+		super(message, details);
+		this.name = 'TimeoutError';
+	}
+}
+
+/**
+ * The dispenser answered and refused the command.
+ */
+export class NakError extends DispenserError {
+	readonly retryable = true;
+
+	constructor(message: string = 'Command failed! check for status', details: DispenserErrorDetails = {}) {
+		super(message, details);
+		this.name = 'NakError';
+	}
+}
+
+/**
+ * A received frame failed its checksum/CRC, the bytes were damaged on the line.
+ */
+export class ChecksumError extends DispenserError {
+	readonly retryable = true;
+
+	constructor(message: string = 'Checksum validation failed', details: DispenserErrorDetails = {}) {
+		super(message, details);
+		this.name = 'ChecksumError';
+	}
+}
+
+/**
+ * The dispenser port closed or dropped, the command never reached the dispenser.
+ */
+export class PortClosedError extends DispenserError {
+	constructor(message: string = 'Dispenser port is closed', details: DispenserErrorDetails = {}) {
+		super(message, details);
+		this.name = 'PortClosedError';
+	}
+}
+
+/**
+ * The dispenser or the SDK is not in a state that allows the command.
+ */
+export class InvalidStateError extends DispenserError {
+	constructor(message: string, details: DispenserErrorDetails = {}) {
+		super(message, details);
+		this.name = 'InvalidStateError';
+	}
+}
+
+/**
+ * The driver does not implement the operation.
+ */
+export class UnsupportedOperationError extends DispenserError {
+	constructor(message: string, details: DispenserErrorDetails = {}) {
+		super(message, details);
+		this.name = 'UnsupportedOperationError';
+	}
+}
@@ -0,0 +1,105 @@
+import debug from 'debug';
+import { DispenserError } from '../errors';
+import { GpioDirection, GpioOptions, IGpio } from '../interface/IGpio';
+
+const debugLog = debug('dispenser:gpio-chardev');
+
+const CONSUMER = 'dispenser-sdk';
+
+/* the part of node-libgpiod used here, the bindings are an optional native dependency */
+type LibgpiodLine = {
+	getValue(): 0 | 1;
+	setValue(value: 0 | 1): void;
+	lineRequest(config: { consumer: string; requestType: number; flags: number }): void;
+	requestInputMode(consumer?: string): void;
+	requestOutputMode(consumer?: string, defaultValue?: 0 | 1): void;
+	release(): void;
+};
+
+type Libgpiod = {
+	Chip: new (identifier: string) => { getLine(offset: number): LibgpiodLine };
+	Line: { RequestType: { Direction: { AS_IS: number } } };
+};
+
+type ClaimedLine = {
+	line: LibgpiodLine;
+	direction?: GpioDirection; // undefined when requested as is, for reading only
+};
+
+/**
+ * Loads node-libgpiod.
+ * @throws DispenserError when the bindings are not installed or were not built against libgpiod
+ */
+export function loadLibgpiod(): Libgpiod {
+	try {
+		return require('node-libgpiod');
+	} catch (error: any) {
+		throw new DispenserError(`node-libgpiod is not available: ${error.message}`);
+	}
+}
+
+/**
+ * GPIO character device (/dev/gpiochipN) through libgpiod, works on any Linux board.
+ * A line stays requested until close, the kernel keeps outputs at the level they were written with.
+ */
+export class ChardevGpio implements IGpio {
+	private readonly chip: InstanceType<Libgpiod['Chip']>;
+	private readonly lines = new Map<number, ClaimedLine>();
+
+	constructor(options: GpioOptions = {}, private readonly libgpiod: Libgpiod = loadLibgpiod()) {
+		const chip = options.chip || 'gpiochip0';
+		try {
+			this.chip = new libgpiod.Chip(chip);
+		} catch (error: any) {
+			throw new DispenserError(`GPIO chip ${chip} could not be opened: ${error.message}`);
+		}
+		debugLog('opened %s', chip);
+	}
+
+	async input(pin: number) {
+		this.claim(pin, 'in');
+	}
+
+	async read(pin: number) {
+		return this.claim(pin).line.getValue() === 1;
+	}
+
+	async write(pin: number, high: boolean) {
+		const claimed = this.lines.get(pin);
+		if (claimed?.direction === 'out') {
+			claimed.line.setValue(high ? 1 : 0);
+			return;
+		}
+		this.claim(pin, 'out', high);
+	}
+
+	async close() {
+		this.lines.forEach(({ line }) => line.release());
+		this.lines.clear();
+	}
+
+	/**
+	 * Request the line, again when it is held with another direction.
+	 * @param direction undefined keeps whatever direction the line has
+	 */
+	private claim(pin: number, direction?: GpioDirection, high = false): ClaimedLine {
+		const claimed = this.lines.get(pin);
+		if (claimed && (!direction || claimed.direction === direction)) return claimed;
+		claimed?.line.release();
+
+		try {
+			const line = claimed?.line || this.chip.getLine(pin);
+			if (direction === 'in') line.requestInputMode(CONSUMER);
+			else if (direction === 'out') line.requestOutputMode(CONSUMER, high ? 1 : 0);
+			else line.lineRequest({ consumer: CONSUMER, requestType: this.libgpiod.Line.RequestType.Direction.AS_IS, flags: 0 });
+
+			debugLog('claimed %d as %s', pin, direction || 'is');
+			const request = { line, direction };
+			this.lines.set(pin, request);
+			return request;
+		} catch (error: any) {
+			this.lines.delete(pin);
+			throw new DispenserError(`GPIO ${pin} could not be requested: ${error.message}`);
+		}
+	}
+}
@@ -0,0 +1,40 @@
+import { GpioDirection, IGpio } from '../interface/IGpio';
+
+/**
+ * In-memory GPIO for tests and the simulators. Pins read low until written or driven with setLevel.
+ */
+export class MockGpio implements IGpio {
+	private readonly levels = new Map<number, boolean>();
+	private readonly directions = new Map<number, GpioDirection>();
+
+	async input(pin: number) {
+		this.directions.set(pin, 'in');
+	}
+
+	async read(pin: number) {
+		return this.levels.get(pin) ?? false;
+	}
+
+	async write(pin: number, high: boolean) {
+		this.directions.set(pin, 'out');
+		this.levels.set(pin, high);
+	}
+
+	async close() {
+		this.directions.clear();
+	}
+
+	/**
+	 * Drive a pin from the outside, as the dispenser wiring would.
+	 */
+	setLevel(pin: number, high: boolean) {
+		this.levels.set(pin, high);
+	}
+
+	/**
+	 * direction the pin was claimed with, undefined while unclaimed
+	 */
+	direction(pin: number): GpioDirection | undefined {
+		return this.directions.get(pin);
+	}
+}
@@ -0,0 +1,80 @@
+import debug from 'debug';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DispenserError } from '../errors';
+import { GpioOptions, IGpio } from '../interface/IGpio';
+
+const debugLog = debug('dispenser:gpio-sysfs');
+
+export const SYSFS_GPIO_ROOT = '/sys/class/gpio';
+
+/**
+ * sysfs number of line 0 of the chip, newer kernels no longer start the first chip at 0.
+ */
+function findBase(root: string, chip: string): number {
+	try {
+		for (const entry of fs.readdirSync(root)) {
+			if (!entry.startsWith('gpiochip')) continue;
+			if (fs.existsSync(path.join(root, entry, 'device', chip))) {
+				return parseInt(fs.readFileSync(path.join(root, entry, 'base'), 'utf-8'), 10);
+			}
+		}
+	} catch (error) {
+		debugLog('findBase: %O', error);
+	}
+	return 0;
+}
+
+/**
+ * Legacy /sys/class/gpio interface, for kernels built without the character device or boards without libgpiod.
+ */
+export class SysfsGpio implements IGpio {
+	private readonly base: number;
+	private readonly exported = new Set<number>();
+
+	constructor(options: GpioOptions = {}, private readonly root: string = SYSFS_GPIO_ROOT) {
+		this.base = options.sysfsBase ?? findBase(root, options.chip || 'gpiochip0');
+		debugLog('base: %d', this.base);
+	}
+
+	async input(pin: number) {
+		await this.set(pin, 'direction', 'in');
+	}
+
+	async read(pin: number) {
+		await this.export(pin);
+		const value = await fs.promises.readFile(this.file(pin, 'value'), 'utf-8');
+		return value.trim() === '1';
+	}
+
+	async write(pin: number, high: boolean) {
+		// 'high' and 'low' switch to output and set the level in one go
+		await this.set(pin, 'direction', high ? 'high' : 'low');
+	}
+
+	async close() {
+		for (const pin of this.exported) {
+			await fs.promises.writeFile(path.join(this.root, 'unexport'), String(this.base + pin)).catch((error) => debugLog('unexport: %O', error));
+		}
+		this.exported.clear();
+	}
+
+	private file(pin: number, attribute: string) {
+		return path.join(this.root, `gpio${this.base + pin}`, attribute);
+	}
+
+	private async export(pin: number) {
+		if (fs.existsSync(this.file(pin, 'value'))) return;
+		try {
+			await fs.promises.writeFile(path.join(this.root, 'export'), String(this.base + pin));
+			this.exported.add(pin);
+		} catch (error: any) {
+			throw new DispenserError(`GPIO ${pin} could not be exported: ${error.message}`);
+		}
+	}
+
+	private async set(pin: number, attribute: string, value: string) {
+		await this.export(pin);
+		await fs.promises.writeFile(this.file(pin, attribute), value);
+	}
+}
@@ -0,0 +1,29 @@
+import debug from 'debug';
+import * as fs from 'fs';
+import { GpioOptions, IGpio } from '../interface/IGpio';
+import { ChardevGpio } from './ChardevGpio';
+import { MockGpio } from './MockGpio';
+import { SysfsGpio } from './SysfsGpio';
+
+const debugLog = debug('dispenser:gpio');
+
+/**
+ * GPIO backend described by `options.gpio`. Without a backend the character device is used when
+ * /dev/<chip> exists and node-libgpiod loads, sysfs otherwise.
+ */
+export function createGpio(options: GpioOptions = {}): IGpio {
+	const { backend } = options;
+	if (backend === 'mock') return new MockGpio();
+	if (backend === 'sysfs') return new SysfsGpio(options);
+	if (backend === 'chardev') return new ChardevGpio(options);
+
+	const chip = options.chip || 'gpiochip0';
+	if (fs.existsSync(`/dev/${chip}`)) {
+		try {
+			return new ChardevGpio(options);
+		} catch (error) {
+			debugLog('chardev unavailable, falling back to sysfs: %O', error);
+		}
+	}
+	return new SysfsGpio(options);
+}
@@ -0,0 +1,40 @@
+/**
+ * What the dispenser behind a driver can actually do.
+ * A feature marked false is not faked: calling it throws UnsupportedOperationError.
+ */
+export type DispenserCapabilities = {
+	presetByVolume: boolean;
+	presetByAmount: boolean;
+	pumpStart: boolean; // the sdk starts the pump after authorizing, false where the dispenser runs it on its own
+	nozzleSensing: boolean; // nozzle on/off hook is reported, not assumed
+	onboardPrinter: boolean; // receipts are printed by the dispenser or a printer attached to it
+	batchNumbers: boolean;
+	flowRate: boolean;
+	temperatureCompensation: boolean; // net volume at 15 °C and product temperature are reported, net presets accepted
+	remoteLocalSwitch: boolean;
+	externalPump: boolean;
+	elock: boolean;
+	multiNozzle: boolean;
+};
+
+/**
+ * Build a capability descriptor, everything not listed is unsupported.
+ * @param capabilities features the driver supports
+ */
+export function createCapabilities(capabilities: Partial<DispenserCapabilities> = {}): DispenserCapabilities {
+	return {
+		presetByVolume: false,
+		presetByAmount: false,
+		pumpStart: false,
+		nozzleSensing: false,
+		onboardPrinter: false,
+		batchNumbers: false,
+		flowRate: false,
+		temperatureCompensation: false,
+		remoteLocalSwitch: false,
+		externalPump: false,
+		elock: false,
+		multiNozzle: false,
+		...capabilities,
+	};
+}
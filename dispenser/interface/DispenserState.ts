@@ -0,0 +1,77 @@
+/**
+ * Driver independent state of a dispenser.
+ * Every driver maps its own status frame into this through normalizeStatus.
+ */
+export enum DispenserState {
+	Idle = 'IDLE',
+	Calling = 'CALLING', // nozzle lifted / start requested, waiting for authorization
+	PresetReady = 'PRESET_READY',
+	Authorized = 'AUTHORIZED',
+	Dispensing = 'DISPENSING',
+	Suspended = 'SUSPENDED',
+	Completed = 'COMPLETED', // delivery finished, sale not closed yet
+	TicketPending = 'TICKET_PENDING',
+	Error = 'ERROR',
+	Offline = 'OFFLINE',
+	Unknown = 'UNKNOWN',
+}
+
+export enum NozzleState {
+	OnHook = 'ON_HOOK',
+	OffHook = 'OFF_HOOK',
+	Unknown = 'UNKNOWN', // dispenser has no nozzle sensing
+}
+
+export type ErrorFlags = {
+	pulserError: boolean;
+	powerFailure: boolean;
+	presetError: boolean;
+	atcError: boolean;
+	airDetected: boolean;
+	systemAlarm: boolean;
+	meterAlarm: boolean;
+	deliveryError: boolean;
+};
+
+export type NormalizedStatus = {
+	state: DispenserState;
+	nozzle: NozzleState;
+	errors: ErrorFlags;
+	hasErrors: boolean;
+	raw: any;
+};
+
+export function createErrorFlags(flags: Partial<ErrorFlags> = {}): ErrorFlags {
+	return {
+		pulserError: false,
+		powerFailure: false,
+		presetError: false,
+		atcError: false,
+		airDetected: false,
+		systemAlarm: false,
+		meterAlarm: false,
+		deliveryError: false,
+		...flags,
+	};
+}
+
+/**
+ * Build a normalized status, filling nozzle and error flags with defaults.
+ * @param state DispenserState
+ * @param raw driver specific status the state was derived from
+ * @param extra nozzle state and error flags when the dispenser reports them
+ */
+export function createNormalizedStatus(
+	state: DispenserState,
+	raw: any,
+	extra: { nozzle?: NozzleState; errors?: Partial<ErrorFlags> } = {}
+): NormalizedStatus {
+	const errors = createErrorFlags(extra.errors);
+	return {
+		state,
+		nozzle: extra.nozzle || NozzleState.Unknown,
+		errors,
+		hasErrors: Object.values(errors).some(Boolean),
+		raw,
+	};
+}
@@ -1,15 +1,28 @@
 import ModbusRTU from 'modbus-serial';
-import { SerialPort } from 'serialport';
+import { ITransport, TransportOptions } from './ITransport';
+import { GpioOptions } from './IGpio';
+import { CommandClass, RetryPolicy } from '../base/CommandQueue';
 import { Seneca } from '../workflows/GateX';
 import { PubSubConfig } from '../../utils/PubSubLogger';
+import { NormalizedStatus } from './DispenserState';
+import { DispenserCapabilities } from './DispenserCapabilities';
+import { DispenserApi } from '../workflows/DispenserApi';
+import { Observable } from 'rxjs';
+import { DispenserReading, WatchOptions } from '../workflows/watchDispenser';
 
 export interface IDispenser {
-	connection: SerialPort | Promise<Seneca>;
+	connection: ITransport | Promise<Seneca>;
+	readonly api: DispenserApi;
 	execute(callee: any, bindFunction?: any, calleeArgs?: any): Promise<any>;
+	/** @deprecated use `api`, its command names are checked at compile time */
 	executeWork(strCallee: string, strBindFunction?: string, calleeArgs?: any): Promise<any>;
 	executeInPriority(callee: any, bindFunction?: any, calleeArgs?: any): Promise<any>;
-	resetQueue?(): void;
+	resetQueue(): void;
 	disconnect(callback: any): void;
+	readNormalizedStatus(): Promise<NormalizedStatus>;
+	getCapabilities(): DispenserCapabilities;
+	watch(options?: WatchOptions): Observable<DispenserReading>;
+	on?(event: 'disconnected' | 'reconnected', listener: (...args: any[]) => void): this;
 	checkType?(): any;
 	switchToRemote?(): any;
 	switchToLocal?(): any;
@@ -21,13 +34,19 @@ export interface IDispenser {
 	readStatus?(): any;
 	pumpStart?(): any;
 	pumpStop?(): any;
-	hasExternalPump?(): any;
+	hasExternalPump?(): boolean;
 	readExternalPumpStatus?(): any;
 	startExternalPump?(): any;
 	stopExternalPump?(): any;
 	authorizeSale?(): any;
 	setPreset?(quantity: number, productId?: number): any;
+	setAmountPreset?(amount: number): any;
 	readPreset?(): any;
+	setUnitPrice?(price: number): any;
+	readUnitPrice?(): any;
+	setNetPreset?(quantity: number): any;
+	readTemperature?(): any;
+	netTotalizer?(): any;
 	readAuthorization?(): any;
 	cancelPreset?(): any;
 	readSale?(): any;
@@ -36,7 +55,11 @@ export interface IDispenser {
 	clearSale?(): any;
 	printReceipt?(printObj: any): any;
 	printOrder?(printObj: any): any;
+	printTicket?(): any;
+	clearTicket?(): any;
+	readPrinterStatus?(): any;
 	processStatus?(res: string): any;
+	normalizeStatus?(res: any): NormalizedStatus;
 	rfidType?(res: string): any;
 	rfidStatus?(res: string): any;
 	processRFIDresponse?(res: string): any;
@@ -47,6 +70,10 @@ export interface IDispenser {
 	processTotalizer?(res: string): any;
 	processTotalizerWithBatch?(res: string): TotalizerResponse;
 	processReadPreset?(res: string): any;
+	processUnitPrice?(res: string): number;
+	processTemperature?(res: string): number;
+	processNetTotalizer?(res: string): number;
+	processPrinterStatus?(res: string): PrinterStatus;
 	processResponse?(response: string[], exponentCut: number, mantessaCut: number): any;
 	processExternalPump?(res: string): boolean;
 	hasChecksBeforePumpStart?(res: string): boolean;
@@ -64,6 +91,7 @@ export interface IDispenser {
 	isPresetAvailable?(res: string): boolean;
 	isNozzleCheckRequired?(res: string): boolean;
 	isPrinterAvailable?(res: string): boolean;
+	isTicketPending?(res: string): boolean;
 	cutStringFromLast?(str: string, cutLength: number, cutFromLast: boolean): any;
 	hex2a?(hex: string): string;
 	hex2bin?(data: string): string;
@@ -77,11 +105,21 @@ export type DispenserOptions = {
 	hardwareId: string;
 	attributeId: string;
 	baudRate?: number;
+	transport?: TransportOptions;
 	kFactor?: number;
 	printer?: PrinterOptions;
 	modbus?: ModbusOptions;
+	gpio?: GpioOptions; // pump relay, authorization valve and nozzle switch wired to the controller
 	totalizerFile?: string;
+	ticketPrinter?: boolean; // Veeder: a printer on the register prints the delivery tickets
+	atc?: boolean; // Veeder: the meter compensates to 15 °C, sale readings carry temperature and net volume
+	batchFile?: string; // sale counter of drivers without a batch register, kept in memory when not set
 	interByteTimeoutInterval?: number;
+	commandTimeoutMs?: number;
+	commandTimeouts?: { [command: string]: number };
+	retryPolicy?: { [commandClass in CommandClass]?: Partial<RetryPolicy> };
+	reconnectIntervalMs?: number; // first retry after the port drops, doubles up to maxReconnectIntervalMs
+	maxReconnectIntervalMs?: number;
 	pubsubConfig?: PubSubConfig;
 };
 
@@ -100,6 +138,12 @@ export type PrinterOptions = {
 	baudRate?: number;
 };
 
+export type PrinterStatus = {
+	online: boolean;
+	printing: boolean;
+	paperOut: boolean;
+};
+
 export type TotalizerResponse = {
 	totalizer: number;
 	batchNumber?: number;
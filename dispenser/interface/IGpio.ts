@@ -0,0 +1,28 @@
+export type GpioDirection = 'in' | 'out';
+
+/**
+ * GPIO lines of the controller board, numbered by their offset on the chip.
+ */
+export interface IGpio {
+	/** Claim the pin as an input, for lines driven by the dispenser. */
+	input(pin: number): Promise<void>;
+	/** true when the pin is high. A pin that is not claimed yet is read as it is, its direction is left alone. */
+	read(pin: number): Promise<boolean>;
+	/** Claim the pin as an output when needed and drive it. */
+	write(pin: number, high: boolean): Promise<void>;
+	/** Release the claimed pins, outputs keep their level. */
+	close(): Promise<void>;
+}
+
+export type GpioPins = {
+	pump?: number; // VeederEmr4: pump relay, low runs the pump, defaults to 22
+	authorization?: number; // GateX: solenoid valve, high opens it, defaults to 26
+	nozzle?: number; // Neogi: nozzle switch, high when the nozzle is on hook, defaults to 26
+};
+
+export type GpioOptions = {
+	backend?: 'chardev' | 'sysfs' | 'mock'; // defaults to chardev when the libgpiod bindings load, sysfs otherwise
+	chip?: string; // defaults to gpiochip0
+	sysfsBase?: number; // sysfs number of the chip's line 0, looked up in /sys/class/gpio when not set
+	pins?: GpioPins;
+};
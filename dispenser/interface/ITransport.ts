@@ -0,0 +1,28 @@
+import { Duplex } from 'stream';
+
+/**
+ * Byte stream to a dispenser. SerialPort satisfies it as is.
+ *
+ * Events: `open`, `close`, plus `disconnect` and `reconnect` on transports that reconnect by themselves.
+ */
+export interface ITransport extends Duplex {
+	readonly isOpen: boolean;
+	close(callback?: (error?: Error | null) => void): void;
+}
+
+export type SerialTransportOptions = {
+	type: 'serial';
+	path?: string; // skips the USB hardwareId/attributeId lookup
+	baudRate?: number;
+};
+
+export type TcpTransportOptions = {
+	type: 'tcp';
+	host: string;
+	port: number;
+	connectTimeoutMs?: number;
+	reconnectIntervalMs?: number;
+	maxReconnectIntervalMs?: number;
+};
+
+export type TransportOptions = SerialTransportOptions | TcpTransportOptions;
@@ -0,0 +1,75 @@
+import { Transform, TransformCallback } from 'stream';
+import debug from 'debug';
+
+const debugLog = debug('dispenser:frame-parser');
+
+export type FrameParserOptions = {
+	interval?: number; // ms of silence before an unframed remainder is emitted as is
+};
+
+/**
+ * Emits every complete frame as soon as its last byte arrives.
+ *
+ * Bytes ahead of the next start byte are dropped. Anything that never becomes a frame is
+ * flushed after `interval` ms of silence, like the inter byte timeout parser it replaces,
+ * so an unexpected reply still reaches the driver.
+ */
+export abstract class FrameParser extends Transform {
+	protected abstract readonly start: number;
+	private readonly interval: number;
+	private buffer = Buffer.alloc(0);
+	private timer?: NodeJS.Timeout;
+
+	constructor(options: FrameParserOptions = {}) {
+		super();
+		this.interval = options.interval || 300;
+	}
+
+	/**
+	 * Length of the frame at the head of the buffer (which starts with the start byte),
+	 * 0 while more bytes are needed, -1 to drop the start byte.
+	 */
+	protected abstract frameLength(buffer: Buffer): number;
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+		clearTimeout(this.timer);
+		this.buffer = Buffer.concat([this.buffer, chunk]);
+		this.drain();
+		if (this.buffer.length) this.timer = setTimeout(() => this.emitRemainder(), this.interval);
+		callback();
+	}
+
+	_flush(callback: TransformCallback) {
+		clearTimeout(this.timer);
+		this.emitRemainder();
+		callback();
+	}
+
+	private drain() {
+		while (this.buffer.length) {
+			const start = this.buffer.indexOf(this.start);
+			if (start < 0) return;
+			if (start > 0) {
+				debugLog('dropping: %s', this.buffer.subarray(0, start).toString('hex'));
+				this.buffer = this.buffer.subarray(start);
+			}
+
+			const length = this.frameLength(this.buffer);
+			if (length < 0) {
+				this.buffer = this.buffer.subarray(1);
+				continue;
+			}
+			if (length === 0 || length > this.buffer.length) return;
+
+			this.push(this.buffer.subarray(0, length));
+			this.buffer = this.buffer.subarray(length);
+		}
+	}
+
+	private emitRemainder() {
+		if (!this.buffer.length) return;
+		debugLog('unframed: %s', this.buffer.toString('hex'));
+		this.push(this.buffer);
+		this.buffer = Buffer.alloc(0);
+	}
+}
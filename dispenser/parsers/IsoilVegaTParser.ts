@@ -0,0 +1,16 @@
+import { FrameParser } from './FrameParser';
+
+const STX = 0x02;
+const CR = 0x0d;
+
+/**
+ * Isoil Vega T: STX <address> <function> [data] <checksum> CR, all ASCII.
+ */
+export class IsoilVegaTParser extends FrameParser {
+	protected readonly start = STX;
+
+	protected frameLength(buffer: Buffer) {
+		const end = buffer.indexOf(CR);
+		return end < 0 ? 0 : end + 1;
+	}
+}
@@ -0,0 +1,146 @@
+import { DispenserError } from '../errors';
+
+/**
+ * Vega-T v10 status record, the reply to a read (function 30): STX <address:3> 30 <fields> <checksum:2> CR.
+ * The positions are the ones the driver has always read, not a spec: the head by byte offset from STX or by space
+ * separated token, the tail by negative offset counted back from the end of the record, so the record length is not fixed.
+ */
+type IsoilRecordPosition = { offset: number; width: number } | { token: number; cut?: number };
+
+export const ISOIL_RECORD_FIELDS = {
+	address: { offset: 1, width: 3 },
+	requestOfStartDelivery: { offset: 18, width: 1 }, // 0 not present, 1 nozzle lifted or start pressed
+	totalizer: { token: 7 }, // litres, comma decimal
+	batchNumber: { offset: 121, width: 6 },
+	preset: { token: 11, cut: 2 }, // litres, followed by two digits of preset type
+	volume: { token: 12 }, // litres delivered in the open batch, comma decimal
+	localPrinting: { offset: -264, width: 1 },
+	flowRate: { offset: -41, width: 6 }, // L/min
+	averageFlowRate: { offset: -35, width: 6 }, // L/min
+	remoteStop: { offset: -18, width: 1 },
+	statusOfBatch: { offset: -17, width: 1 },
+	flowOfProduct: { offset: -16, width: 1 },
+	stopOfBatch: { offset: -15, width: 1 },
+};
+
+type IsoilRecordField = keyof typeof ISOIL_RECORD_FIELDS;
+
+/* the state names are the ones the driver has always reported, keyed by their code in the record */
+const BATCH_STATES = {
+	'0': 'Batch not active',
+	'1': 'Delivery in progress',
+	'2': 'Delivery stopped',
+	'3': 'Request of store data of batch',
+} as const;
+const PRINTER_STATES = {
+	'0': 'Printer not enabled',
+	'1': 'Printer ON LINE',
+	'2': 'No paper',
+	'3': 'Printer OFF LINE',
+	'4': 'Printer BUSY',
+	'5': 'Printing in progress',
+	'6': 'Print aborted',
+	'7': 'Data not available',
+} as const;
+const STOP_REASONS = {
+	'0': 'No stop',
+	'1': 'Stop by operator',
+	'2': 'Stop for faulting of power supply',
+	'4': 'Stop by permissive absence',
+	'5': 'Stop by system alarm',
+	'6': 'Stop by meter alarm',
+	'7': 'Stop by weight & measure switch absence',
+	'8': 'Remote to local commutation',
+} as const;
+
+export type IsoilBatchState = (typeof BATCH_STATES)[keyof typeof BATCH_STATES];
+export type IsoilPrinterState = (typeof PRINTER_STATES)[keyof typeof PRINTER_STATES];
+export type IsoilStopReason = (typeof STOP_REASONS)[keyof typeof STOP_REASONS];
+
+export type IsoilVegaTStatus = {
+	address: string;
+	requestOfStartDelivery: boolean;
+	remoteStop: boolean;
+	batchState: IsoilBatchState;
+	flowing: boolean;
+	stopReason: IsoilStopReason;
+	printerState: IsoilPrinterState;
+	flowRate: number;
+	averageFlowRate: number;
+	batchNumber: number;
+	preset: number;
+	volume: number;
+	totalizer: number;
+	alarms: {
+		powerFailure: boolean;
+		systemAlarm: boolean;
+		meterAlarm: boolean;
+	};
+};
+
+/**
+ * Decode a status record field by field.
+ * @param res hex string as handed to the process* methods
+ * @throws DispenserError when the record is not framed or too short for a field, or a field holds an unknown value
+ */
+export function decodeIsoilStatusRecord(res: string): IsoilVegaTStatus {
+	const record = Buffer.from(res, 'hex').toString('latin1');
+	if (record[0] !== '\x02' || record[record.length - 1] !== '\r') {
+		throw new DispenserError('Isoil status record is not framed by STX and CR', { frame: res });
+	}
+	const tokens = record.split(' ').filter((token) => token);
+
+	const field = (name: IsoilRecordField): string => {
+		const position: IsoilRecordPosition = ISOIL_RECORD_FIELDS[name];
+		if ('token' in position) {
+			const token = tokens[position.token];
+			if (token === undefined) throw new DispenserError(`Isoil status record has no ${name} token`, { frame: res });
+			return token.slice(0, token.length - (position.cut || 0));
+		}
+		const start = position.offset < 0 ? record.length + position.offset : position.offset;
+		if (start < 0 || start + position.width > record.length) {
+			throw new DispenserError(`Isoil status record has ${record.length} bytes, too short for ${name}`, { frame: res });
+		}
+		return record.substring(start, start + position.width);
+	};
+	const flag = (name: IsoilRecordField) => {
+		const value = field(name);
+		if (value !== '0' && value !== '1') throw new DispenserError(`Unreadable ${name} in the status record: "${value}"`, { frame: res });
+		return value === '1';
+	};
+	const state = <T>(name: IsoilRecordField, states: { readonly [code: string]: T }): T => {
+		const value = field(name);
+		const decoded: T | undefined = states[value];
+		if (decoded === undefined) {
+			throw new DispenserError(`Unreadable ${name} in the status record: "${value}"`, { frame: res });
+		}
+		return decoded;
+	};
+	const number = (name: IsoilRecordField) => {
+		const value = field(name).trim();
+		if (!/^\d+([.,]\d+)?$/.test(value)) throw new DispenserError(`Unreadable ${name} in the status record: "${value}"`, { frame: res });
+		return parseFloat(value.replace(',', '.'));
+	};
+
+	const stopReason = state('stopOfBatch', STOP_REASONS);
+	return {
+		address: field('address'),
+		requestOfStartDelivery: flag('requestOfStartDelivery'),
+		remoteStop: flag('remoteStop'),
+		batchState: state('statusOfBatch', BATCH_STATES),
+		flowing: flag('flowOfProduct'),
+		stopReason,
+		printerState: state('localPrinting', PRINTER_STATES),
+		flowRate: number('flowRate'),
+		averageFlowRate: number('averageFlowRate'),
+		batchNumber: number('batchNumber'),
+		preset: number('preset'),
+		volume: number('volume'),
+		totalizer: number('totalizer'),
+		alarms: {
+			powerFailure: stopReason === 'Stop for faulting of power supply',
+			systemAlarm: stopReason === 'Stop by system alarm',
+			meterAlarm: stopReason === 'Stop by meter alarm',
+		},
+	};
+}
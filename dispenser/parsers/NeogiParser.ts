@@ -0,0 +1,16 @@
+import { FrameParser } from './FrameParser';
+
+const START = 0x23; // #
+const END = 0x25; // %
+
+/**
+ * Neogi: `#TEXT%` acknowledgements and `#content#cc%` data frames.
+ */
+export class NeogiParser extends FrameParser {
+	protected readonly start = START;
+
+	protected frameLength(buffer: Buffer) {
+		const end = buffer.indexOf(END);
+		return end < 0 ? 0 : end + 1;
+	}
+}
@@ -0,0 +1,16 @@
+import { FrameParser } from './FrameParser';
+
+const FLAG = 0x7e;
+const HEADER_LENGTH = 6;
+
+/**
+ * TCS 3000: 0x7e <to> <from> <type> <command> <length> [length bytes] <crc>
+ */
+export class TCS3000Parser extends FrameParser {
+	protected readonly start = FLAG;
+
+	protected frameLength(buffer: Buffer) {
+		if (buffer.length < HEADER_LENGTH) return 0;
+		return HEADER_LENGTH + buffer[HEADER_LENGTH - 1] + 1;
+	}
+}
@@ -0,0 +1,16 @@
+import { FrameParser } from './FrameParser';
+
+const SOH = 0x01;
+const ETX = 0x7f;
+
+/**
+ * Tokhiem: SOH <address> <command> [data] 0x7f <bcc>
+ */
+export class TokhiemParser extends FrameParser {
+	protected readonly start = SOH;
+
+	protected frameLength(buffer: Buffer) {
+		const end = buffer.indexOf(ETX);
+		return end < 0 ? 0 : end + 2;
+	}
+}
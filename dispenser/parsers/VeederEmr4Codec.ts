@@ -0,0 +1,110 @@
+import { ChecksumError, DispenserError } from '../errors';
+
+export const EMR4_FLAG = 0x7e;
+export const EMR4_ESCAPE = 0x7d;
+export const EMR4_HOST = 0xff;
+export const EMR4_METER = 0x01;
+export const EMR4_ACK = 0x41;
+export const EMR4_NAK = 0x4e;
+
+/**
+ * Unescaped EMR4 frame, payload is <command> <sub command> [data].
+ */
+export type Emr4Frame = {
+	to: number;
+	from: number;
+	command: number;
+	sub: number;
+	data: Buffer;
+};
+
+/**
+ * two's complement of the byte sum, the content with its checksum adds up to 0
+ */
+export function emr4Checksum(bytes: ArrayLike<number>): number {
+	let sum = 0;
+	for (let i = 0; i < bytes.length; i++) sum += bytes[i];
+	return -sum & 0xff;
+}
+
+/**
+ * HDLC byte stuffing, a flag or escape byte in the content is sent as 0x7d <byte ^ 0x20>
+ */
+export function escapeEmr4(bytes: ArrayLike<number>): Buffer {
+	const escaped: number[] = [];
+	for (let i = 0; i < bytes.length; i++) {
+		const byte = bytes[i];
+		if (byte === EMR4_FLAG || byte === EMR4_ESCAPE) escaped.push(EMR4_ESCAPE, byte ^ 0x20);
+		else escaped.push(byte);
+	}
+	return Buffer.from(escaped);
+}
+
+export function unescapeEmr4(bytes: Buffer): Buffer {
+	const unescaped: number[] = [];
+	for (let i = 0; i < bytes.length; i++) {
+		if (bytes[i] !== EMR4_ESCAPE) {
+			unescaped.push(bytes[i]);
+		} else if (i + 1 < bytes.length) {
+			unescaped.push(bytes[++i] ^ 0x20);
+		} else {
+			throw new DispenserError('Veeder frame ends with an escape byte', { frame: bytes.toString('hex') });
+		}
+	}
+	return Buffer.from(unescaped);
+}
+
+/**
+ * 0x7e <to> <from> <command> <sub command> [data] <checksum> 0x7e, stuffed between the flags.
+ */
+export function encodeEmr4Frame(frame: Emr4Frame): Buffer {
+	const content = Buffer.from([frame.to, frame.from, frame.command, frame.sub, ...frame.data]);
+	const escaped = escapeEmr4(Buffer.concat([content, Buffer.from([emr4Checksum(content)])]));
+	return Buffer.concat([Buffer.from([EMR4_FLAG]), escaped, Buffer.from([EMR4_FLAG])]);
+}
+
+/**
+ * Decode one frame, flags included.
+ * @throws ChecksumError when the content does not add up, DispenserError when it is not a frame
+ */
+export function decodeEmr4Frame(raw: Buffer): Emr4Frame {
+	const frame = raw.toString('hex');
+	if (raw.length < 2 || raw[0] !== EMR4_FLAG || raw[raw.length - 1] !== EMR4_FLAG) {
+		throw new DispenserError('Not a Veeder frame', { frame });
+	}
+
+	const content = unescapeEmr4(raw.subarray(1, -1));
+	if (content.length < 5) throw new DispenserError('Veeder frame too short', { frame });
+	if (emr4Checksum(content) !== 0) throw new ChecksumError(`Checksum validation failed: ${frame}`, { frame });
+
+	return {
+		to: content[0],
+		from: content[1],
+		command: content[2],
+		sub: content[3],
+		data: content.subarray(4, -1),
+	};
+}
+
+/**
+ * Every frame in a reply, commands that send several frames return their replies joined.
+ * @param res hex string as handed to the process* methods
+ */
+export function decodeEmr4Frames(res: string): Emr4Frame[] {
+	const bytes = Buffer.from(res, 'hex');
+	const frames: Emr4Frame[] = [];
+
+	let start = bytes.indexOf(EMR4_FLAG);
+	while (start >= 0) {
+		const end = bytes.indexOf(EMR4_FLAG, start + 1);
+		if (end < 0) break;
+		if (end === start + 1) {
+			start = end; // back to back flags, the second one opens the frame
+			continue;
+		}
+		frames.push(decodeEmr4Frame(bytes.subarray(start, end + 1)));
+		start = bytes.indexOf(EMR4_FLAG, end + 1);
+	}
+
+	return frames;
+}
@@ -0,0 +1,17 @@
+import { FrameParser } from './FrameParser';
+import { EMR4_FLAG } from './VeederEmr4Codec';
+
+/**
+ * Veeder Root EMR4: 0x7e <to> <from> <command> <sub command> [data] <checksum> 0x7e.
+ * The content is byte stuffed, so the next flag always closes the frame.
+ */
+export class VeederEmr4Parser extends FrameParser {
+	protected readonly start = EMR4_FLAG;
+
+	protected frameLength(buffer: Buffer) {
+		if (buffer[1] === EMR4_FLAG) return -1; // back to back flags, the first one closed an earlier frame
+
+		const end = buffer.indexOf(EMR4_FLAG, 1);
+		return end < 0 ? 0 : end + 1;
+	}
+}
@@ -0,0 +1,199 @@
+import { Duplex, Transform } from 'stream';
+import debug from 'debug';
+import { ITransport } from '../interface/ITransport';
+import { shareCommandQueue } from '../base/CommandQueue';
+
+const debugLog = debug('dispenser:bus');
+
+export type DispenserBusOptions = {
+	createParser: () => Transform; // splits the line into frames
+	addressOf: (frame: Buffer) => number | undefined; // address of the pump a reply comes from, undefined when the frame has none
+	reopen?: () => Promise<ITransport>; // opens the line again after it closed, without it the pumps stay disconnected
+	reconnectIntervalMs?: number;
+	maxReconnectIntervalMs?: number;
+};
+
+/**
+ * Connection of one pump on a shared bus. Carries only the replies addressed to that pump,
+ * writes go out on the shared line through the common command queue.
+ *
+ * Events: `open`, `disconnect` and `reconnect` when the shared line drops and comes back.
+ */
+export class BusChannel extends Duplex implements ITransport {
+	readonly address: number;
+	private bus: DispenserBus;
+	private released = false;
+
+	constructor(bus: DispenserBus, address: number) {
+		super();
+		this.bus = bus;
+		this.address = address;
+	}
+
+	get isOpen() {
+		return !this.released && this.bus.isOpen;
+	}
+
+	_read() {}
+
+	_write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+		this.bus.send(this, chunk, callback);
+	}
+
+	close(callback?: (error?: Error | null) => void) {
+		this.released = true;
+		this.bus.release(this, callback);
+	}
+}
+
+/**
+ * Several pumps on one RS-485 line.
+ *
+ * The bus owns the line and hands every pump a BusChannel. All channels share one command queue,
+ * so only one command is on the line at a time, and replies are routed by the address in the frame.
+ * A reply without an address goes to the channel that wrote last. The line is closed with the last channel.
+ */
+export class DispenserBus {
+	private connection!: ITransport;
+	private parser!: Transform;
+	private readonly options: DispenserBusOptions;
+	private channels = new Map<number, BusChannel>();
+	private lastWriter?: BusChannel;
+	private disconnected = false;
+	private closing = false;
+	private reconnectAttempts = 0;
+	private reconnectTimer?: NodeJS.Timeout;
+
+	constructor(connection: ITransport, options: DispenserBusOptions) {
+		this.options = options;
+		this.attach(connection);
+	}
+
+	get isOpen() {
+		return !this.disconnected && this.connection.isOpen;
+	}
+
+	/**
+	 * Connection for the pump at address, pass it to the driver in place of a port.
+	 */
+	channel(address: number): BusChannel {
+		if (this.closing) throw new Error('Dispenser bus is closed');
+		if (this.channels.has(address)) throw new Error(`Bus address already in use: 0x${address.toString(16)}`);
+
+		const channel = new BusChannel(this, address);
+		shareCommandQueue(channel, this);
+		this.channels.set(address, channel);
+		debugLog('channel: 0x%s', address.toString(16));
+		return channel;
+	}
+
+	send(channel: BusChannel, chunk: Buffer, callback: (error?: Error | null) => void) {
+		this.lastWriter = channel;
+		this.connection.write(chunk, (error) => callback(error));
+	}
+
+	release(channel: BusChannel, callback?: (error?: Error | null) => void) {
+		if (this.channels.get(channel.address) === channel) this.channels.delete(channel.address);
+		if (this.lastWriter === channel) this.lastWriter = undefined;
+		if (this.channels.size) return callback?.();
+
+		debugLog('release: last channel closed, closing the line');
+		this.closing = true;
+		clearTimeout(this.reconnectTimer);
+		this.connection.close((error) => callback?.(error));
+	}
+
+	private attach(connection: ITransport) {
+		this.connection = connection;
+		this.parser = connection.pipe(this.options.createParser());
+		this.parser.on('data', this.route);
+		connection.on('open', this.handleOpen);
+		connection.on('close', this.handleClose);
+		connection.on('error', this.handleError);
+		connection.on('disconnect', this.handleDisconnect);
+		connection.on('reconnect', this.handleReconnect);
+	}
+
+	private detach(connection: ITransport) {
+		connection.unpipe(this.parser);
+		this.parser.removeListener('data', this.route);
+		connection.removeListener('open', this.handleOpen);
+		connection.removeListener('close', this.handleClose);
+		connection.removeListener('error', this.handleError);
+		connection.removeListener('disconnect', this.handleDisconnect);
+		connection.removeListener('reconnect', this.handleReconnect);
+	}
+
+	private route = (frame: Buffer) => {
+		const address = this.options.addressOf(frame);
+		const channel = address === undefined ? this.lastWriter : this.channels.get(address);
+		if (!channel) {
+			debugLog('route: no channel for %s', frame.toString('hex'));
+			return;
+		}
+		channel.push(frame);
+	};
+
+	private broadcast(event: string) {
+		this.channels.forEach((channel) => channel.emit(event));
+	}
+
+	private handleOpen = () => this.broadcast('open');
+
+	private handleClose = () => {
+		if (this.closing) return;
+		this.handleDisconnect();
+		if (this.options.reopen) this.scheduleReconnect();
+	};
+
+	private handleError = (error: Error) => {
+		debugLog('line error: %s', error.message);
+		if (!this.connection.isOpen) this.handleClose();
+	};
+
+	private handleDisconnect = () => {
+		if (this.disconnected) return;
+		this.disconnected = true;
+		debugLog('disconnected');
+		this.broadcast('disconnect');
+	};
+
+	private handleReconnect = () => {
+		this.disconnected = false;
+		this.reconnectAttempts = 0;
+		debugLog('reconnected');
+		this.broadcast('reconnect');
+	};
+
+	private scheduleReconnect() {
+		if (this.reconnectTimer) return;
+		const interval = Math.min(
+			(this.options.reconnectIntervalMs || 1000) * 2 ** this.reconnectAttempts++,
+			this.options.maxReconnectIntervalMs || 30000
+		);
+		debugLog('reconnect in %d ms', interval);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.reconnect().catch((error) => {
+				debugLog('reconnect failed: %s', error.message);
+				if (!this.closing) this.scheduleReconnect();
+			});
+		}, interval);
+		this.reconnectTimer.unref?.();
+	}
+
+	private async reconnect() {
+		const connection = await this.options.reopen!();
+		if (!connection.isOpen) {
+			await new Promise((resolve, reject) => {
+				connection.once('open', resolve);
+				connection.once('error', reject);
+			});
+		}
+		if (this.closing) return connection.close();
+
+		this.detach(this.connection);
+		this.attach(connection);
+		this.handleReconnect();
+	}
+}
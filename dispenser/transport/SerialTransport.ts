@@ -0,0 +1,45 @@
+import { Duplex } from 'stream';
+import { SerialPort } from 'serialport';
+import debug from 'debug';
+import { ITransport } from '../interface/ITransport';
+
+const debugLog = debug('dispenser:serial-transport');
+
+/**
+ * Local serial port (USB or onboard UART) behind the transport interface.
+ */
+export class SerialTransport extends Duplex implements ITransport {
+	readonly port: SerialPort;
+
+	constructor(port: SerialPort) {
+		super();
+		this.port = port;
+		this.port.on('data', (data: Buffer) => this.push(data));
+		this.port.on('open', () => {
+			debugLog('open: %s', this.port.path);
+			this.emit('open');
+		});
+		this.port.on('close', () => {
+			debugLog('close: %s', this.port.path);
+			this.emit('close');
+		});
+		this.port.on('error', (error) => {
+			debugLog('error: %o', error);
+			if (this.listenerCount('error')) this.emit('error', error);
+		});
+	}
+
+	get isOpen() {
+		return this.port.isOpen;
+	}
+
+	_read() {}
+
+	_write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+		this.port.write(chunk, (error) => callback(error));
+	}
+
+	close(callback?: (error?: Error | null) => void) {
+		this.port.close((error) => callback?.(error));
+	}
+}
@@ -0,0 +1,141 @@
+import { Duplex } from 'stream';
+import { Socket } from 'net';
+import debug from 'debug';
+import { ITransport, TcpTransportOptions } from '../interface/ITransport';
+
+const debugLog = debug('dispenser:tcp-transport');
+
+/**
+ * Raw TCP link to a serial gateway (ser2net, Moxa NPort in TCP server mode).
+ * Reconnects with exponential backoff when the socket drops, the stream itself stays
+ * the same so parsers piped from it keep working.
+ * `disconnect` is also emitted when the first connect fails, so commands fail with PortClosedError
+ * instead of waiting out their timeout, and `reconnect` once the gateway answers after it.
+ */
+export class TcpTransport extends Duplex implements ITransport {
+	readonly host: string;
+	readonly port: number;
+	readonly connectTimeoutMs: number;
+	readonly reconnectIntervalMs: number;
+	readonly maxReconnectIntervalMs: number;
+	private socket?: Socket;
+	private connected = false;
+	private opened = false;
+	private closing = false;
+	private down = false; // disconnect emitted, reconnect not yet
+	private attempts = 0;
+	private reconnectTimer?: NodeJS.Timeout;
+
+	constructor(options: TcpTransportOptions) {
+		super();
+		this.host = options.host;
+		this.port = options.port;
+		this.connectTimeoutMs = options.connectTimeoutMs || 5000;
+		this.reconnectIntervalMs = options.reconnectIntervalMs || 1000;
+		this.maxReconnectIntervalMs = options.maxReconnectIntervalMs || 30000;
+		this.connect();
+	}
+
+	get isOpen() {
+		return this.connected;
+	}
+
+	get path() {
+		return `${this.host}:${this.port}`;
+	}
+
+	private connect() {
+		const socket = new Socket();
+		this.socket = socket;
+		socket.setNoDelay(true);
+		socket.setKeepAlive(true, 5000);
+		socket.setTimeout(this.connectTimeoutMs);
+
+		socket.on('timeout', () => socket.destroy(new Error(`Connect timeout to ${this.path}`)));
+		socket.on('error', (error) => debugLog('error: %s %s', this.path, error.message));
+		socket.on('data', (data: Buffer) => this.push(data));
+		socket.once('connect', () => {
+			socket.setTimeout(0);
+			this.connected = true;
+			this.attempts = 0;
+			debugLog('connected: %s', this.path);
+			if (!this.opened) {
+				this.opened = true;
+				this.emit('open');
+			}
+			if (this.down) {
+				this.down = false;
+				this.emit('reconnect');
+			}
+		});
+		socket.once('close', () => {
+			const wasConnected = this.connected;
+			this.connected = false;
+			if (this.socket !== socket) return;
+			this.socket = undefined;
+			if (this.closing) {
+				this.emit('close');
+				return;
+			}
+			if (wasConnected || !this.down) {
+				debugLog('disconnected: %s', this.path);
+				this.down = true;
+				this.emit('disconnect');
+			}
+			this.scheduleReconnect();
+		});
+
+		socket.connect(this.port, this.host);
+	}
+
+	private scheduleReconnect() {
+		const interval = Math.min(this.reconnectIntervalMs * 2 ** this.attempts++, this.maxReconnectIntervalMs);
+		debugLog('reconnect: %s in %d ms', this.path, interval);
+		this.reconnectTimer = setTimeout(() => this.connect(), interval);
+	}
+
+	_read() {}
+
+	_write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+		if (!this.opened && !this.down && !this.closing) {
+			// like a serial port that is still opening, the first frames wait for the first connect attempt
+			const settle = () => {
+				this.removeListener('open', settle);
+				this.removeListener('disconnect', settle);
+				this.removeListener('close', settle);
+				this._write(chunk, encoding, callback);
+			};
+			this.once('open', settle);
+			this.once('disconnect', settle);
+			this.once('close', settle);
+			return;
+		}
+		if (!this.socket || !this.connected) {
+			// Dropped rather than queued, a command replayed after reconnect could start a pump nobody is waiting on.
+			// The dispenser was told with `disconnect` and fails the command with PortClosedError.
+			debugLog('write: %s not connected, dropping %s', this.path, chunk.toString('hex'));
+			return callback();
+		}
+		const socket = this.socket;
+		socket.write(chunk, (error) => {
+			// the stream stays usable, the failed socket is closed and reported through `disconnect`
+			if (error) {
+				debugLog('write: %s failed: %s', this.path, error.message);
+				socket.destroy(error);
+			}
+			callback();
+		});
+	}
+
+	close(callback?: (error?: Error | null) => void) {
+		this.closing = true;
+		clearTimeout(this.reconnectTimer);
+		if (!this.socket) {
+			this.emit('close');
+			callback?.();
+			return;
+		}
+		this.once('close', () => callback?.());
+		this.socket.destroy();
+	}
+}
@@ -0,0 +1,35 @@
+import { SerialPort } from 'serialport';
+import debug from 'debug';
+import { DispenserOptions, PrinterOptions } from '../interface/IDispenser';
+import { ITransport } from '../interface/ITransport';
+import { findDispenserPort } from '../../utils/findDispenserPort';
+import { findPrinterPort } from '../../utils/findPrinterPort';
+import { SerialTransport } from './SerialTransport';
+import { TcpTransport } from './TcpTransport';
+
+const debugLog = debug('dispenser:transport');
+
+/**
+ * Opens the dispenser link described by `options.transport`, defaults to the USB serial port
+ * found by hardwareId/attributeId.
+ */
+export async function createTransport(options: DispenserOptions): Promise<ITransport> {
+	const { transport, hardwareId, attributeId, baudRate = 9600 } = options;
+	if (transport?.type === 'tcp') {
+		debugLog('Dispenser at: %s:%d', transport.host, transport.port);
+		return new TcpTransport(transport);
+	}
+
+	const path = transport?.path || (await findDispenserPort(hardwareId, attributeId));
+	debugLog('Dispenser found at: %o', path);
+	return new SerialTransport(new SerialPort({ path, baudRate: transport?.baudRate || baudRate }));
+}
+
+/**
+ * Receipt printer port for drivers that print through a separate serial printer (TCS3000, GateX).
+ */
+export async function createPrinterPort(printer: PrinterOptions): Promise<SerialPort> {
+	const path = await findPrinterPort(printer.hardwareId, printer.attributeId);
+	debugLog('Printer found at: %o', path);
+	return new SerialPort({ path, baudRate: printer.baudRate || 9600 });
+}
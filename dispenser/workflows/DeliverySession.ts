@@ -0,0 +1,401 @@
+import { EventEmitter } from 'events';
+import debug from 'debug';
+import { IDispenser, TotalizerResponse } from '../interface/IDispenser';
+import { delay } from '../../utils/delay';
+import { UnsupportedOperationError } from '../errors';
+
+const debugLog = debug('dispenser:delivery-session');
+
+export enum DeliverySessionState {
+	Created = 'CREATED',
+	Presetting = 'PRESETTING',
+	Verifying = 'VERIFYING',
+	Authorizing = 'AUTHORIZING',
+	StartingPump = 'STARTING_PUMP',
+	Dispensing = 'DISPENSING',
+	Suspended = 'SUSPENDED',
+	Closing = 'CLOSING',
+	Completed = 'COMPLETED',
+	Failed = 'FAILED',
+}
+
+export type DeliveryStepTimeouts = {
+	preset: number;
+	authorize: number;
+	pumpStart: number;
+	dispensing: number;
+	close: number;
+};
+
+export type DeliverySessionOptions = {
+	quantity: number;
+	productId?: number;
+	pollIntervalMs?: number;
+	timeouts?: Partial<DeliveryStepTimeouts>;
+};
+
+export type DeliveryProgress = {
+	status: boolean;
+	percentage?: number;
+	currentFlowRate?: number;
+	averageFlowRate?: number;
+	dispensedQty: number;
+	[key: string]: any;
+};
+
+export type DeliverySummary = {
+	quantity: number;
+	dispensedQty: number;
+	startTotalizer?: TotalizerResponse;
+	endTotalizer?: TotalizerResponse;
+	startedAt: number;
+	endedAt: number;
+};
+
+const DEFAULT_TIMEOUTS: DeliveryStepTimeouts = {
+	preset: 30000,
+	authorize: 30000,
+	pumpStart: 30000,
+	dispensing: 60 * 60 * 1000,
+	close: 60000,
+};
+
+// from authorizing on the pump may run and the sale is open, a failure has to close them
+const SALE_OPEN_STATES = [
+	DeliverySessionState.Authorizing,
+	DeliverySessionState.StartingPump,
+	DeliverySessionState.Dispensing,
+	DeliverySessionState.Suspended,
+	DeliverySessionState.Closing,
+];
+
+const transitions: { [state: string]: DeliverySessionState[] } = {
+	[DeliverySessionState.Created]: [DeliverySessionState.Presetting],
+	[DeliverySessionState.Presetting]: [DeliverySessionState.Verifying, DeliverySessionState.Authorizing],
+	[DeliverySessionState.Verifying]: [DeliverySessionState.Authorizing],
+	[DeliverySessionState.Authorizing]: [DeliverySessionState.StartingPump],
+	[DeliverySessionState.StartingPump]: [DeliverySessionState.Dispensing],
+	[DeliverySessionState.Dispensing]: [DeliverySessionState.Suspended, DeliverySessionState.Closing],
+	[DeliverySessionState.Suspended]: [DeliverySessionState.Dispensing, DeliverySessionState.Closing],
+	[DeliverySessionState.Closing]: [DeliverySessionState.Completed],
+	[DeliverySessionState.Completed]: [],
+	[DeliverySessionState.Failed]: [],
+};
+
+/**
+ * Runs a full sale on any IDispenser:
+ * preset -> verify -> authorize -> pump start -> monitor (suspend/resume) -> close.
+ *
+ * Events: `state` (state, previous), `progress` (DeliveryProgress), `completed` (DeliverySummary), `failed` (Error)
+ */
+export class DeliverySession extends EventEmitter {
+	state: DeliverySessionState = DeliverySessionState.Created;
+	startTotalizer?: TotalizerResponse;
+	endTotalizer?: TotalizerResponse;
+	dispensedQty: number = 0;
+
+	private dispenser: IDispenser;
+	private options: DeliverySessionOptions;
+	private timeouts: DeliveryStepTimeouts;
+	private stopRequested: boolean = false;
+	private startedAt: number = 0;
+
+	constructor(dispenser: IDispenser, options: DeliverySessionOptions) {
+		super();
+		if (!(options.quantity > 0)) {
+			throw new Error(`Invalid quantity: ${options.quantity}`);
+		}
+
+		this.dispenser = dispenser;
+		this.options = options;
+		this.timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
+	}
+
+	async run(): Promise<DeliverySummary> {
+		if (this.state !== DeliverySessionState.Created) {
+			throw new Error(`Delivery session already ${this.state}`);
+		}
+
+		this.startedAt = Date.now();
+		try {
+			await this.preset();
+			await this.authorize();
+			await this.startPump();
+			await this.monitor();
+			const summary = await this.close();
+			this.emit('completed', summary);
+			return summary;
+		} catch (error) {
+			debugLog('run: failed in %s: %o', this.state, error);
+			const failedIn = this.state;
+			this.transition(DeliverySessionState.Failed);
+			if (SALE_OPEN_STATES.includes(failedIn)) await this.abandonSale();
+			this.emit('failed', error);
+			throw error;
+		}
+	}
+
+	async suspend() {
+		if (this.state !== DeliverySessionState.Dispensing) {
+			throw new Error(`Cannot suspend a delivery in ${this.state}`);
+		}
+
+		await this.command('suspendSale');
+		this.transition(DeliverySessionState.Suspended);
+	}
+
+	async resume() {
+		if (this.state !== DeliverySessionState.Suspended) {
+			throw new Error(`Cannot resume a delivery in ${this.state}`);
+		}
+
+		await this.command('resumeSale');
+		this.transition(DeliverySessionState.Dispensing);
+	}
+
+	/**
+	 * End the delivery before the preset is reached, the sale is still closed normally.
+	 */
+	stop() {
+		debugLog('stop: requested in %s', this.state);
+		this.stopRequested = true;
+	}
+
+	private async preset() {
+		this.transition(DeliverySessionState.Presetting);
+		const { quantity, productId } = this.options;
+		// read before the preset, on some dispensers the preset authorizes and starts the delivery
+		this.startTotalizer = await this.withTimeout('start totalizer', this.timeouts.preset, () =>
+			this.dispenser.execute(this.dispenser.totalizer, this.dispenser.processTotalizerWithBatch)
+		);
+		debugLog('preset: start totalizer %o', this.startTotalizer);
+		const status = await this.read('readStatus');
+
+		if (!(await this.hook('isPresetAvailable', status))) {
+			debugLog('preset: preset not available on this dispenser, keeping it in the sdk');
+			await this.command('setPreset', [quantity, productId]);
+			return;
+		}
+
+		await this.waitUntil('ready for preset', this.timeouts.preset, async () => this.hook('isReadyForPreset', await this.read('readStatus')));
+		await this.command('setPreset', [quantity, productId]);
+
+		if (!(this.dispenser.readPreset instanceof Function) || !(this.dispenser.isPresetVerified instanceof Function)) {
+			debugLog('preset: the dispenser cannot read back its preset, not verified');
+			return;
+		}
+
+		this.transition(DeliverySessionState.Verifying);
+		await this.waitUntil('preset verified', this.timeouts.preset, async () =>
+			this.hook('isPresetVerified', await this.read('readPreset'), quantity)
+		);
+	}
+
+	private async authorize() {
+		this.transition(DeliverySessionState.Authorizing);
+		if (this.dispenser.authorizeSale instanceof Function) {
+			await this.withTimeout('authorize', this.timeouts.authorize, () => this.command('authorizeSale'));
+		} else {
+			debugLog('authorize: the preset authorized the sale');
+		}
+	}
+
+	private async startPump() {
+		this.transition(DeliverySessionState.StartingPump);
+		const status = await this.read('readStatus');
+
+		if (await this.hook('hasChecksBeforePumpStart', status)) {
+			if (!(await this.hook('isOnline', status))) {
+				throw new Error('Dispenser is not in remote mode, cannot start pump');
+			}
+
+			if (await this.hook('isNozzleCheckRequired', status)) {
+				await this.waitUntil('nozzle on hook before pump start', this.timeouts.pumpStart, async () =>
+					this.hook('isNozzleOnHook', await this.read('readStatus'))
+				);
+			}
+		}
+
+		if (this.dispenser.getCapabilities().pumpStart) {
+			await this.withTimeout('pump start', this.timeouts.pumpStart, () => this.command('pumpStart'));
+		} else {
+			debugLog('startPump: the dispenser starts its own pump');
+		}
+		this.transition(DeliverySessionState.Dispensing);
+	}
+
+	private async monitor() {
+		const deadline = Date.now() + this.timeouts.dispensing;
+
+		while (!this.stopRequested) {
+			if (Date.now() > deadline) {
+				throw new Error(`Delivery step dispensing timed out after ${this.timeouts.dispensing}ms`);
+			}
+
+			if (this.state === DeliverySessionState.Dispensing) {
+				const progress: DeliveryProgress = await this.dispenser.execute(
+					this.dispenser.readSale,
+					this.dispenser.isOrderComplete,
+					this.options.quantity
+				);
+				this.dispensedQty = progress.dispensedQty;
+				this.emit('progress', progress);
+
+				if (progress.status) {
+					debugLog('monitor: order complete %o', progress);
+					break;
+				}
+
+				const status = await this.read('readStatus');
+				if (this.dispensedQty > 0 && !(await this.hook('isDispensing', status)) && (await this.hook('isSaleCloseable', status))) {
+					debugLog('monitor: dispenser stopped before preset at %d', this.dispensedQty);
+					break;
+				}
+			}
+
+			await delay(this.options.pollIntervalMs || 1000);
+		}
+	}
+
+	private async close(): Promise<DeliverySummary> {
+		this.transition(DeliverySessionState.Closing);
+		await this.withTimeout('pump stop', this.timeouts.close, () => this.command('pumpStop'));
+
+		const status = await this.read('readStatus');
+		if (await this.hook('isNozzleCheckRequired', status)) {
+			await this.waitUntil('nozzle on hook', this.timeouts.close, async () => this.hook('isNozzleOnHook', await this.read('readStatus')));
+		}
+
+		await this.waitUntil('sale closeable', this.timeouts.close, async () => this.hook('isSaleCloseable', await this.read('readStatus')));
+
+		// registers that issue tickets refuse a new sale until the ticket is printed or dropped
+		if (await this.hook('isTicketPending', await this.read('readStatus'))) {
+			const print = this.dispenser.getCapabilities().onboardPrinter;
+			await this.command(print ? 'printTicket' : 'clearTicket');
+			await this.waitUntil(
+				'ticket printed',
+				this.timeouts.close,
+				async () => !(await this.hook('isTicketPending', await this.read('readStatus'))) && !(print && (await this.isPrinting()))
+			);
+		}
+
+		this.endTotalizer = await this.dispenser.execute(this.dispenser.totalizer, this.dispenser.processTotalizerWithBatch);
+		await this.command('clearSale');
+
+		if (this.startTotalizer && this.endTotalizer) {
+			this.dispensedQty = Math.round((this.endTotalizer.totalizer - this.startTotalizer.totalizer) * 100) / 100;
+		}
+
+		this.transition(DeliverySessionState.Completed);
+		return {
+			quantity: this.options.quantity,
+			dispensedQty: this.dispensedQty,
+			startTotalizer: this.startTotalizer,
+			endTotalizer: this.endTotalizer,
+			startedAt: this.startedAt,
+			endedAt: Date.now(),
+		};
+	}
+
+	/**
+	 * Stop the pump after a failure, the sale is only cleared once the pump stopped and the dispenser lets it close.
+	 * The failure that got here is the one reported, errors on the way are only logged.
+	 */
+	private async abandonSale() {
+		try {
+			await this.withTimeout('pump stop', this.timeouts.close, () => this.command('pumpStop'));
+		} catch (error) {
+			debugLog('abandonSale: pump stop failed, sale left open: %o', error);
+			return;
+		}
+
+		try {
+			if (!(await this.hook('isSaleCloseable', await this.read('readStatus')))) {
+				debugLog('abandonSale: sale not closeable, left open');
+				return;
+			}
+			await this.withTimeout('clear sale', this.timeouts.close, () => this.command('clearSale'));
+		} catch (error) {
+			debugLog('abandonSale: clear sale failed: %o', error);
+		}
+	}
+
+	private transition(next: DeliverySessionState) {
+		const previous = this.state;
+		if (next !== DeliverySessionState.Failed && !transitions[previous].includes(next)) {
+			throw new Error(`Invalid delivery transition ${previous} -> ${next}`);
+		}
+
+		debugLog('transition: %s -> %s', previous, next);
+		this.state = next;
+		this.emit('state', next, previous);
+	}
+
+	/**
+	 * Run a command with processCommand, drivers either throw or return false on failure
+	 */
+	private async command(name: string, args?: any) {
+		const callee = this.dispenser[name as keyof IDispenser];
+		if (!(callee instanceof Function)) {
+			throw new UnsupportedOperationError(`${name} is not supported by this dispenser`, { command: name });
+		}
+
+		const result = await this.dispenser.execute(callee, this.dispenser.processCommand, args);
+		if (result === false) {
+			throw new Error(`Command ${name} failed! check for status`);
+		}
+		return result;
+	}
+
+	/**
+	 * Whether the printer is still busy with the ticket, false for drivers that cannot tell.
+	 */
+	private async isPrinting(): Promise<boolean> {
+		const { readPrinterStatus, processPrinterStatus } = this.dispenser;
+		if (!(readPrinterStatus instanceof Function) || !(processPrinterStatus instanceof Function)) return false;
+		return (await this.dispenser.execute(readPrinterStatus, processPrinterStatus)).printing;
+	}
+
+	private async read(name: string) {
+		const callee = this.dispenser[name as keyof IDispenser];
+		if (!(callee instanceof Function)) {
+			throw new UnsupportedOperationError(`${name} is not supported by this dispenser`, { command: name });
+		}
+		return await this.dispenser.execute(callee);
+	}
+
+	/**
+	 * Drivers answer capability hooks as boolean, 'true'/'false' or { status }, sync or async
+	 */
+	private hook(name: string, ...args: any[]): boolean | Promise<boolean> {
+		const fn = this.dispenser[name as keyof IDispenser];
+		if (!(fn instanceof Function)) return false;
+
+		const toBoolean = (value: any) => (value && typeof value === 'object' ? Boolean(value.status) : value === true || value === 'true');
+		const result = (fn as Function).call(this.dispenser, ...args);
+		return result instanceof Promise ? result.then(toBoolean) : toBoolean(result);
+	}
+
+	private async waitUntil(label: string, timeoutMs: number, check: () => Promise<boolean>) {
+		const deadline = Date.now() + timeoutMs;
+		while (!(await check())) {
+			if (Date.now() > deadline) {
+				throw new Error(`Delivery step ${label} timed out after ${timeoutMs}ms`);
+			}
+			await delay(this.options.pollIntervalMs || 1000);
+		}
+	}
+
+	private async withTimeout<T>(label: string, timeoutMs: number, fn: () => Promise<T>): Promise<T> {
+		let timer: NodeJS.Timeout | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => reject(new Error(`Delivery step ${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+		});
+
+		try {
+			return await Promise.race([fn(), timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
@@ -0,0 +1,173 @@
+import debug from 'debug';
+import { IDispenser, PrinterStatus, TotalizerResponse } from '../interface/IDispenser';
+import { NormalizedStatus } from '../interface/DispenserState';
+import { NakError, UnsupportedOperationError } from '../errors';
+
+const debugLog = debug('dispenser:api');
+
+export type SaleReading = {
+	dispensedQty: number;
+	complete: boolean; // preset quantity reached, always false when no quantity is given
+	percentage?: number;
+	currentFlowRate?: number;
+	averageFlowRate?: number;
+	batchNumber?: number;
+	unitPrice?: number; // price the sale is charged at, for drivers that know it
+	amount?: number;
+	grossVolume?: number; // temperature compensating meters, see DispenserCapabilities.temperatureCompensation
+	netVolume?: number; // at 15 °C
+	temperature?: number; // °C
+};
+
+export type CommandAck = {
+	command: string;
+	acknowledged: true;
+};
+
+type Command = keyof IDispenser;
+
+/**
+ * Typed facade over a dispenser, each command is paired with the parser for its reply.
+ * Failures reject with a DispenserError, a command the driver lacks with UnsupportedOperationError.
+ */
+export class DispenserApi {
+	constructor(private dispenser: IDispenser) {}
+
+	totalizer(): Promise<TotalizerResponse> {
+		return this.read('totalizer', 'processTotalizerWithBatch');
+	}
+
+	netTotalizer(): Promise<number> {
+		return this.read('netTotalizer', 'processNetTotalizer');
+	}
+
+	readTemperature(): Promise<number> {
+		return this.read('readTemperature', 'processTemperature');
+	}
+
+	readStatus(): Promise<NormalizedStatus> {
+		return this.dispenser.readNormalizedStatus();
+	}
+
+	/**
+	 * Volume of the open sale.
+	 * @param quantity preset quantity, fills complete and percentage
+	 */
+	async readSale(quantity?: number): Promise<SaleReading> {
+		const sale = await this.read('readSale', 'isOrderComplete', quantity || Number.MAX_SAFE_INTEGER);
+		return {
+			dispensedQty: Number(sale.dispensedQty) || 0,
+			complete: Boolean(quantity && sale.status),
+			percentage: quantity ? sale.percentage : undefined,
+			currentFlowRate: sale.currentFlowRate,
+			averageFlowRate: sale.averageFlowRate,
+			batchNumber: sale.batchNumber,
+			unitPrice: sale.unitPrice,
+			amount: sale.amount,
+			grossVolume: sale.grossVolume,
+			netVolume: sale.netVolume,
+			temperature: sale.temperature,
+		};
+	}
+
+	async readPreset(): Promise<number> {
+		return Number(await this.read('readPreset', 'processReadPreset'));
+	}
+
+	readUnitPrice(): Promise<number> {
+		return this.read('readUnitPrice', 'processUnitPrice');
+	}
+
+	setUnitPrice(price: number): Promise<CommandAck> {
+		return this.command('setUnitPrice', price);
+	}
+
+	setPreset(quantity: number, productId?: number): Promise<CommandAck> {
+		return this.command('setPreset', [quantity, productId]);
+	}
+
+	/**
+	 * Preset on the volume at 15 °C instead of the metered one.
+	 */
+	setNetPreset(quantity: number): Promise<CommandAck> {
+		return this.command('setNetPreset', quantity);
+	}
+
+	/**
+	 * Preset by money instead of volume, the dispenser converts it at its unit price.
+	 */
+	setAmountPreset(amount: number): Promise<CommandAck> {
+		return this.command('setAmountPreset', amount);
+	}
+
+	cancelPreset(): Promise<CommandAck> {
+		return this.command('cancelPreset');
+	}
+
+	authorizeSale(): Promise<CommandAck> {
+		return this.command('authorizeSale');
+	}
+
+	pumpStart(): Promise<CommandAck> {
+		return this.command('pumpStart');
+	}
+
+	pumpStop(): Promise<CommandAck> {
+		return this.command('pumpStop');
+	}
+
+	suspendSale(): Promise<CommandAck> {
+		return this.command('suspendSale');
+	}
+
+	resumeSale(): Promise<CommandAck> {
+		return this.command('resumeSale');
+	}
+
+	clearSale(): Promise<CommandAck> {
+		return this.command('clearSale');
+	}
+
+	switchToRemote(): Promise<CommandAck> {
+		return this.command('switchToRemote');
+	}
+
+	switchToLocal(): Promise<CommandAck> {
+		return this.command('switchToLocal');
+	}
+
+	/**
+	 * Delivery ticket on the dispenser's own printer.
+	 */
+	printTicket(): Promise<CommandAck> {
+		return this.command('printTicket');
+	}
+
+	readPrinterStatus(): Promise<PrinterStatus> {
+		return this.read('readPrinterStatus', 'processPrinterStatus');
+	}
+
+	private method(name: Command): Function {
+		const fn = this.dispenser[name];
+		if (!(fn instanceof Function)) {
+			throw new UnsupportedOperationError(`${name} is not supported by this dispenser`, { command: name });
+		}
+		return fn;
+	}
+
+	private async read(name: Command, parser: Command, args?: any): Promise<any> {
+		return await this.dispenser.execute(this.method(name), this.method(parser), args);
+	}
+
+	/**
+	 * drivers either throw or return false from processCommand when the dispenser refuses
+	 */
+	private async command(name: Command, args?: any): Promise<CommandAck> {
+		const result = await this.read(name, 'processCommand', args);
+		debugLog('%s: %o', name, result);
+		if (result === false) {
+			throw new NakError(`Command ${name} failed! check for status`, { command: name });
+		}
+		return { command: name, acknowledged: true };
+	}
+}
@@ -1,5 +1,6 @@
 import ModbusRTU from 'modbus-serial';
 import { DispenserOptions } from '../interface/IDispenser';
+import { TcpTransportOptions } from '../interface/ITransport';
 import { BehaviorSubject, lastValueFrom } from 'rxjs';
 import debug from 'debug';
 
@@ -10,6 +11,7 @@ export class Seneca {
 	public address: string = 'COM9';
 	public baudRate: number;
 	public deviceId: number;
+	public tcp?: TcpTransportOptions; // Modbus RTU tunnelled through a serial gateway
 	private _overflowCount: BehaviorSubject<number> = new BehaviorSubject<number>(0);
 	private _overflowOffset: BehaviorSubject<number> = new BehaviorSubject<number>(0);
 	private _pulseCount: BehaviorSubject<number> = new BehaviorSubject<number>(0);
@@ -23,6 +25,7 @@ export class Seneca {
 	constructor(options: DispenserOptions) {
 		const modbusOptions = options.modbus;
 		this.baudRate = options.baudRate || 9600;
+		if (options.transport?.type === 'tcp') this.tcp = options.transport;
 		this.totalizerFile = options.totalizerFile || 'totalizer.json';
 		this.client = new ModbusRTU();
 		this.timeout = modbusOptions?.timeout || 1000;
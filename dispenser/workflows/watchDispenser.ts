@@ -0,0 +1,94 @@
+import { distinctUntilChanged, Observable, shareReplay } from 'rxjs';
+import debug from 'debug';
+import { IDispenser } from '../interface/IDispenser';
+import { DispenserState } from '../interface/DispenserState';
+
+const debugLog = debug('dispenser:watch');
+
+export type WatchOptions = {
+	intervalMs?: number;
+	maxBackoffMs?: number;
+};
+
+export type DispenserReading = {
+	state: DispenserState;
+	dispensedQty: number;
+	flowRate: number;
+	totalizer?: number;
+	timestamp: number;
+};
+
+// states in which a sale is open and readSale is meaningful
+const SALE_STATES = [DispenserState.Authorized, DispenserState.Dispensing, DispenserState.Suspended, DispenserState.Completed];
+
+async function readOnce(dispenser: IDispenser): Promise<DispenserReading> {
+	const status = await dispenser.readNormalizedStatus();
+	const reading: DispenserReading = {
+		state: status.state,
+		dispensedQty: 0,
+		flowRate: 0,
+		timestamp: Date.now(),
+	};
+
+	if (status.state === DispenserState.Offline) {
+		return reading;
+	}
+
+	if (SALE_STATES.includes(status.state)) {
+		// quantity is unknown here, isOrderComplete is only used for its dispensedQty and flow rate
+		const sale = await dispenser.execute(dispenser.readSale, dispenser.isOrderComplete, Number.MAX_SAFE_INTEGER);
+		reading.dispensedQty = sale?.dispensedQty || 0;
+		reading.flowRate = sale?.currentFlowRate || 0;
+	}
+
+	reading.totalizer = await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer);
+	return reading;
+}
+
+function isSameReading(previous: DispenserReading, current: DispenserReading) {
+	return (
+		previous.state === current.state &&
+		previous.dispensedQty === current.dispensedQty &&
+		previous.flowRate === current.flowRate &&
+		previous.totalizer === current.totalizer
+	);
+}
+
+/**
+ * Poll a dispenser through its command queue and stream readings.
+ * Unchanged readings are dropped, port errors double the interval up to maxBackoffMs,
+ * and all subscribers share one polling loop which stops when the last one unsubscribes.
+ */
+export function watchDispenser(dispenser: IDispenser, options: WatchOptions = {}): Observable<DispenserReading> {
+	const intervalMs = options.intervalMs || 1000;
+	const maxBackoffMs = options.maxBackoffMs || 30000;
+
+	return new Observable<DispenserReading>((subscriber) => {
+		let stopped = false;
+		let failures = 0;
+		let timer: NodeJS.Timeout | undefined;
+
+		const tick = async () => {
+			try {
+				const reading = await readOnce(dispenser);
+				failures = 0;
+				if (!stopped) subscriber.next(reading);
+			} catch (error) {
+				failures++;
+				debugLog('watch: reading failed (%d in a row): %o', failures, error);
+			}
+
+			if (stopped) return;
+			const nextDelay = failures ? Math.min(intervalMs * Math.pow(2, failures), maxBackoffMs) : intervalMs;
+			timer = setTimeout(tick, nextDelay);
+		};
+
+		tick();
+
+		return () => {
+			debugLog('watch: stopped');
+			stopped = true;
+			clearTimeout(timer);
+		};
+	}).pipe(distinctUntilChanged(isSameReading), shareReplay({ bufferSize: 1, refCount: true }));
+}
@@ -2,5 +2,19 @@ module.exports = {
 	transform: {
 		'^.+\\.(t|j)sx?$': '@swc/jest',
 	},
-	testMatch: ['<rootDir>/tests/**/GateX.test.ts'],
+	testMatch: [
+		'<rootDir>/tests/**/GateX.test.ts',
+		'<rootDir>/tests/**/CommandQueue.test.ts',
+		'<rootDir>/tests/**/DeliverySession.test.ts',
+		'<rootDir>/tests/**/watchDispenser.test.ts',
+		'<rootDir>/tests/**/*Simulator.test.ts',
+		'<rootDir>/tests/**/TcpTransport.test.ts',
+		'<rootDir>/tests/**/driverRegistry.test.ts',
+		'<rootDir>/tests/**/validateOptions.test.ts',
+		'<rootDir>/tests/**/reconnect.test.ts',
+		'<rootDir>/tests/**/FrameParser.test.ts',
+		'<rootDir>/tests/**/DispenserApi.test.ts',
+		'<rootDir>/tests/**/FlowEstimator.test.ts',
+		'<rootDir>/tests/**/Gpio.test.ts',
+	],
 };
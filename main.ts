@@ -1,77 +1,88 @@
-import { findDispenserPort } from './utils/findDispenserPort';
-import { findRfidPort } from './utils/findRfidPort';
 import { DispenserOptions, IDispenser } from './dispenser/interface/IDispenser';
-import { SerialPort } from 'serialport';
 import { IRfid, RfidOptions } from './rfid/interface/IRfid';
 import { getConfigFromEnv, getRFIDConfigFromEnv } from './utils/envParser';
-import { Seneca } from './dispenser/workflows/GateX';
-import { delay } from './utils/delay';
 import debug from 'debug';
-import { findPrinterPort } from './utils/findPrinterPort';
-import { TCS3000 } from './dispenser/TCS3000';
+import { createPrinterPort, createTransport } from './dispenser/transport/createTransport';
+import { getDispenserDriver, getRfidDriver } from './utils/driverRegistry';
+export {
+	OptionsValidationError,
+	validateDispenserOptions,
+	validateRfidOptions,
+	validatePrinterOptions,
+	validateModbusOptions,
+	validateGpioOptions,
+	validatePubSubConfig,
+	validateTransportOptions,
+} from './utils/validateOptions';
+import { assertValidDispenserOptions, assertValidRfidOptions } from './utils/validateOptions';
+import './dispenser/drivers';
+import './rfid/drivers';
 
 const debugLog = debug('dispenser:main');
 export { IDispenser, IRfid, RfidOptions, DispenserOptions, getConfigFromEnv, getRFIDConfigFromEnv };
+export { PrinterStatus } from './dispenser/interface/IDispenser';
+export { IsoilVegaTStatus, IsoilBatchState, IsoilPrinterState, IsoilStopReason } from './dispenser/parsers/IsoilVegaTStatusRecord';
 export { PubSubConfig, getPubSubLogger, shutdownPubSubLogger } from './utils/PubSubLogger';
+export {
+	DeliverySession,
+	DeliverySessionOptions,
+	DeliverySessionState,
+	DeliverySummary,
+	DeliveryProgress,
+} from './dispenser/workflows/DeliverySession';
+export { watchDispenser, WatchOptions, DispenserReading } from './dispenser/workflows/watchDispenser';
+export { DispenserApi, SaleReading, CommandAck } from './dispenser/workflows/DispenserApi';
+export { FlowEstimator } from './utils/FlowEstimator';
+export { BatchCounter } from './utils/BatchCounter';
+export { DispenserState, NozzleState, ErrorFlags, NormalizedStatus } from './dispenser/interface/DispenserState';
+export { DispenserCapabilities } from './dispenser/interface/DispenserCapabilities';
+export {
+	DispenserError,
+	TimeoutError,
+	NakError,
+	ChecksumError,
+	PortClosedError,
+	InvalidStateError,
+	UnsupportedOperationError,
+} from './dispenser/errors';
+export { VirtualDispenser, SimulatorFault, SimulatorOptions } from './simulator/VirtualDispenser';
+export { createSimulatorPort } from './simulator/createSimulatorPort';
+export { TokhiemSimulator, TokhiemSimulatorOptions } from './simulator/TokhiemSimulator';
+export { VeederEmr4Simulator, VeederEmr4SimulatorOptions } from './simulator/VeederEmr4Simulator';
+export { IsoilVegaTSimulator, IsoilVegaTSimulatorOptions } from './simulator/IsoilVegaTSimulator';
+export { TCS3000Simulator } from './simulator/TCS3000Simulator';
+export { NeogiSimulator } from './simulator/NeogiSimulator';
+export { SenecaSimulator, SenecaSimulatorOptions, SenecaFault } from './simulator/SenecaSimulator';
+export { ITransport, TransportOptions, SerialTransportOptions, TcpTransportOptions } from './dispenser/interface/ITransport';
+export { SerialTransport } from './dispenser/transport/SerialTransport';
+export { TcpTransport } from './dispenser/transport/TcpTransport';
+export { DispenserBus, DispenserBusOptions, BusChannel } from './dispenser/transport/DispenserBus';
+export { createTransport, createPrinterPort };
+export { IGpio, GpioOptions, GpioPins, GpioDirection } from './dispenser/interface/IGpio';
+export { createGpio } from './dispenser/gpio/createGpio';
+export { ChardevGpio } from './dispenser/gpio/ChardevGpio';
+export { SysfsGpio } from './dispenser/gpio/SysfsGpio';
+export { MockGpio } from './dispenser/gpio/MockGpio';
+export {
+	registerDispenserDriver,
+	registerRfidDriver,
+	listDrivers,
+	DriverKind,
+	DriverCapabilities,
+	DriverInfo,
+	DispenserDriverFactory,
+	RfidDriverFactory,
+} from './utils/driverRegistry';
 
 /* Factory for creating dispenser objects */
 export async function createDispenser(options: DispenserOptions): Promise<IDispenser> {
-	const { dispenserType, hardwareId, attributeId, baudRate = 9600, printer } = options;
-	switch (dispenserType) {
-		case 'Tokhiem':
-			const DispenserType = await import('./dispenser/Tokhiem');
-			const tokhiemUsbPath = await findDispenserPort(hardwareId, attributeId);
-			debugLog('Dispenser found at: %o', tokhiemUsbPath);
-			return new DispenserType.Tokhiem(new SerialPort({ path: tokhiemUsbPath, baudRate: baudRate }), options);
-		case 'VeederEmr4':
-			const VeederEmr4 = await import('./dispenser/VeederEmr4');
-			const veederUsbPath = await findDispenserPort(hardwareId, attributeId);
-			debugLog('Dispenser found at: %o', veederUsbPath);
-			return new VeederEmr4.VeederEmr4(new SerialPort({ path: veederUsbPath, baudRate: baudRate }), options);
-		case 'IsoilVegaTVersion10':
-			const IsoilVegaTVersion10 = await import('./dispenser/IsoilVegaTVersion10');
-			const ISoilUsbPath = await findDispenserPort(hardwareId, attributeId);
-			debugLog('Dispenser found at: %o', ISoilUsbPath);
-			return new IsoilVegaTVersion10.IsoilVegaTVersion10(new SerialPort({ path: ISoilUsbPath, baudRate: baudRate }), options);
-		case 'TCS3000':
-			const TCSUsbPath = await findDispenserPort(hardwareId, attributeId);
-			debugLog('Dispenser found at: %o', TCSUsbPath);
-			if (!printer) throw new Error('Printer is required for TCS dispenser');
-			const TCS3000PrinterPath = await findPrinterPort(printer.hardwareId, printer.attributeId);
-			debugLog('Printer found at: %o', TCS3000PrinterPath);
-			const TCS3000printerPort = new SerialPort({ path: TCS3000PrinterPath, baudRate: printer.baudRate || 9600 });
-			return new TCS3000(new SerialPort({ path: TCSUsbPath, baudRate: baudRate }), TCS3000printerPort, options);
-		case 'GateX':
-			const GateX = await import('./dispenser/GateX');
-			const serialPort = new Seneca(options);
-			serialPort.address = await findDispenserPort(hardwareId, attributeId);
-			debugLog('Dispenser found at: %o', serialPort.address);
-			if (!printer) throw new Error('Printer is required for GateX dispenser');
-			const GateXPrinterPath = await findPrinterPort(printer.hardwareId, printer.attributeId);
-			debugLog('Printer found at: %o', GateXPrinterPath);
-			const printerPort = new SerialPort({ path: GateXPrinterPath, baudRate: printer.baudRate || 9600 });
-			const gatex = new GateX.GateX(serialPort, printerPort, options);
-			await delay(5000);
-			return gatex;
-		case 'Neogi':
-			const Neogi = await import('./dispenser/Neogi');
-			const neogiUsbPath = await findDispenserPort(hardwareId, attributeId);
-			debugLog('Dispenser found at: %o', neogiUsbPath);
-			return new Neogi.Neogi(new SerialPort({ path: neogiUsbPath, baudRate: baudRate }), options);
-		default:
-			throw new Error('Invalid dispenser type');
-	}
+	assertValidDispenserOptions(options);
+	debugLog('createDispenser: %s', options.dispenserType);
+	return await getDispenserDriver(options.dispenserType).factory(options);
 }
 
-/* Factory for creating dispenser objects */
+/* Factory for creating rfid objects */
 export async function createRfid(options: RfidOptions): Promise<IRfid> {
-	const { rfidType, hardwareId, attributeId, baudRate = 19200 } = options;
-	switch (rfidType) {
-		case 'PETROPOINTHECTRONICS':
-			const serialPort = new SerialPort({ path: await findRfidPort(hardwareId, attributeId), baudRate: baudRate });
-			const RfidPetropoint = await import('./rfid/RfidPetropoint');
-			return new RfidPetropoint.RfidPetropoint(serialPort);
-		default:
-			throw new Error('Invalid rfid type');
-	}
+	assertValidRfidOptions(options);
+	return await getRfidDriver(options.rfidType).factory(options);
 }
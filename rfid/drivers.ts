@@ -0,0 +1,12 @@
+import { SerialPort } from 'serialport';
+import { registerRfidDriver } from '../utils/driverRegistry';
+import { findRfidPort } from '../utils/findRfidPort';
+
+/* Built-in rfid readers */
+
+registerRfidDriver('PETROPOINTHECTRONICS', async (options) => {
+	const { hardwareId, attributeId, baudRate = 19200 } = options;
+	const serialPort = new SerialPort({ path: await findRfidPort(hardwareId, attributeId), baudRate: baudRate });
+	const { RfidPetropoint } = await import('./RfidPetropoint');
+	return new RfidPetropoint(serialPort);
+});
@@ -0,0 +1,168 @@
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { SimulatorOptions, VirtualDispenser } from './VirtualDispenser';
+
+const STX = 0x02;
+const CR = 0x0d;
+const RESULT_OK = '00';
+const RESULT_REFUSED = '01';
+
+/**
+ * Byte offsets of the status record fields, the tail fields are counted back from the end of the record.
+ * Space separated tokens 7, 11 and 12 are the totalizer, the preset and the sale volume.
+ */
+const RECORD_LENGTH = 420;
+const RECORD = {
+	requestOfStartDelivery: 18,
+	totalizer: 71,
+	batchNumber: 121,
+	preset: 128,
+	volume: 139,
+	localPrinting: RECORD_LENGTH - 264,
+	flowRate: RECORD_LENGTH - 41,
+	averageFlowRate: RECORD_LENGTH - 35,
+	remoteStop: RECORD_LENGTH - 18,
+	statusOfBatch: RECORD_LENGTH - 17,
+	flowOfProduct: RECORD_LENGTH - 16,
+	stopOfBatch: RECORD_LENGTH - 15,
+};
+
+// token separators of the record head, the tail is read by position only
+const SEPARATORS = [20, 29, 36, 43, 52, 61, 70, 83, 96, 120, 127, 138, 151];
+const HEAD_END = 164;
+
+export type IsoilVegaTSimulatorOptions = SimulatorOptions & {
+	address?: string;
+};
+
+/**
+ * Isoil Vega-T v10: STX <address:3> <type> <function:2> [data] [4 spaces] <checksum:2> CR.
+ * The checksum is the byte sum from STX up to the checksum as two ASCII hex digits, low digit first.
+ * Commands are answered with STX <address> <function> <result:2> <status of batch> <checksum> CR,
+ * a read (function 30) with the full status record.
+ */
+export class IsoilVegaTSimulator extends VirtualDispenser {
+	readonly name = 'IsoilVegaTVersion10';
+	address: string;
+	stopReason: string = '0';
+	printerStatus: string = '1';
+	protected checksumOffset = 2;
+
+	constructor(options: IsoilVegaTSimulatorOptions = {}) {
+		super(options);
+		this.address = options.address ?? '001';
+	}
+
+	protected frameLength(buffer: Buffer) {
+		if (buffer[0] !== STX) return -1;
+
+		const end = buffer.indexOf(CR);
+		return end < 0 ? 0 : end + 1;
+	}
+
+	protected handleFrame(frame: Buffer) {
+		const ascii = frame.toString('ascii');
+		if (ascii.substring(1, 4) !== this.address) return undefined;
+		if (ascii.slice(-3, -1) !== this.checksum(frame.subarray(0, -3))) return this.nak(frame);
+
+		const data = ascii.slice(7, -3).trimEnd();
+		const command = ascii.substring(5, 7);
+		switch (command) {
+			case '30':
+				return this.statusRecord();
+			case '41':
+				return this.reply(command, RESULT_OK);
+			case '42':
+				if (![DispenserState.Idle, DispenserState.PresetReady].includes(this.state)) return this.nak(frame);
+				this.setPreset(parseInt(data.substring(3, 7)));
+				return this.reply(command, RESULT_OK);
+			case '44':
+				if (this.state === DispenserState.PresetReady) {
+					this.startDelivery();
+				} else if (this.state === DispenserState.Completed && this.volume < this.preset) {
+					// resumeSale terminates and starts again
+					this.setState(DispenserState.Dispensing);
+				} else {
+					return this.nak(frame);
+				}
+				return this.reply(command, RESULT_OK);
+			case '45':
+				if (data === '1') {
+					this.suspendDelivery();
+				} else {
+					this.stopDelivery();
+				}
+				return this.reply(command, RESULT_OK);
+			case '46':
+				this.stopDelivery();
+				return this.reply(command, RESULT_OK);
+			case '47':
+				this.clearSale();
+				return this.reply(command, RESULT_OK);
+			default:
+				return this.nak(frame);
+		}
+	}
+
+	protected nak(frame: Buffer) {
+		return this.reply(frame.toString('ascii', 5, 7), RESULT_REFUSED);
+	}
+
+	private statusOfBatch() {
+		switch (this.state) {
+			case DispenserState.Authorized:
+			case DispenserState.Dispensing:
+				return '1';
+			case DispenserState.Suspended:
+				return '2';
+			case DispenserState.Completed:
+				return '3';
+			default:
+				return '0';
+		}
+	}
+
+	private statusRecord() {
+		const record = Buffer.alloc(RECORD_LENGTH - 3, '0');
+		const put = (offset: number, value: string) => record.write(value, offset, 'ascii');
+
+		record[0] = STX;
+		put(1, `${this.address}30`);
+		SEPARATORS.forEach((offset) => put(offset, ' '));
+		record.fill(' ', HEAD_END, RECORD.flowRate);
+
+		put(RECORD.requestOfStartDelivery, this.nozzleOnHook ? '0' : '1');
+		put(RECORD.totalizer, this.decimal(this.totalizer, 12));
+		put(RECORD.batchNumber, String(this.batchNumber).padStart(6, '0'));
+		put(RECORD.preset, `${this.preset.toFixed(2).padStart(8, '0')}11`);
+		put(RECORD.volume, this.decimal(this.volume, 12));
+		put(RECORD.localPrinting, this.printerStatus);
+		put(RECORD.flowRate, String(Math.round(this.currentFlowRate())).padStart(6, '0'));
+		put(RECORD.averageFlowRate, String(Math.round(this.flowRate)).padStart(6, '0'));
+		put(RECORD.remoteStop, this.state === DispenserState.Suspended ? '1' : '0');
+		put(RECORD.statusOfBatch, this.statusOfBatch());
+		put(RECORD.flowOfProduct, this.isFlowing() ? '1' : '0');
+		put(RECORD.stopOfBatch, this.stopReason);
+
+		return this.frame(record);
+	}
+
+	private reply(command: string, result: string) {
+		return this.frame(Buffer.from(`\x02${this.address}${command}${result}${this.statusOfBatch()}`, 'ascii'));
+	}
+
+	private frame(body: Buffer) {
+		return Buffer.concat([body, Buffer.from(`${this.checksum(body)}\r`, 'ascii')]);
+	}
+
+	private checksum(data: Buffer) {
+		const sum = (data.reduce((acc, byte) => acc + byte, 0) % 256).toString(16).toUpperCase().padStart(2, '0');
+		return sum[1] + sum[0];
+	}
+
+	/**
+	 * comma decimal, e.g. (12.5, 8) -> "00012,50"
+	 */
+	private decimal(value: number, width: number) {
+		return value.toFixed(2).replace('.', ',').padStart(width, '0');
+	}
+}
@@ -0,0 +1,144 @@
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { SimulatorOptions, VirtualDispenser } from './VirtualDispenser';
+
+const DATA_FRAME = /^#(.*)#(\d{2})%$/;
+
+/**
+ * Neogi: plain commands end with CR (`ST\r`), the preset is wrapped as `#<data>#<checksum>%`.
+ * Acks have no checksum (`#OK%`, `#STIDLE%`), data replies do (`#VT0000004142.02#40%`).
+ * Checksum is the character sum modulo 100, replies include the closing '#' in it.
+ * When the preset is reached the next RV is answered with the LT transaction record.
+ */
+export class NeogiSimulator extends VirtualDispenser {
+	readonly name = 'Neogi';
+	serialNumber: string = 'NEOGISIM01';
+	private transactionReported: boolean = true;
+	protected checksumOffset = 2;
+
+	constructor(options: SimulatorOptions = {}) {
+		super(options);
+	}
+
+	protected frameLength(buffer: Buffer) {
+		const ascii = buffer.toString('ascii');
+
+		if (ascii[0] === '#') {
+			for (let end = ascii.indexOf('%'); end >= 0; end = ascii.indexOf('%', end + 1)) {
+				if (DATA_FRAME.test(ascii.substring(0, end + 1))) return end + 1;
+			}
+			return 0;
+		}
+
+		if (!/^[A-Z]/.test(ascii)) return -1;
+		const end = ascii.indexOf('\r');
+		return end < 0 ? 0 : end + 1;
+	}
+
+	protected handleFrame(frame: Buffer) {
+		const ascii = frame.toString('ascii');
+
+		if (ascii[0] === '#') {
+			const [, data, checksum] = ascii.match(DATA_FRAME)!;
+			if (checksum !== this.checksum(data)) return this.nak(frame);
+			if (!data.startsWith('SL')) return this.nak(frame);
+			if (this.state !== DispenserState.Idle) return this.nak(frame);
+
+			// the preset authorizes the sale as well
+			this.setPreset(parseFloat(data.substring(2, 9)));
+			this.transactionReported = false;
+			this.startDelivery();
+			return this.ack('OK');
+		}
+
+		switch (ascii.trim()) {
+			case 'ST':
+				return this.ack(`ST${this.statusText()}`);
+			case 'VT':
+				return this.data(`VT${this.totalizer.toFixed(2).padStart(13, '0')}`);
+			case 'RV':
+				if (this.state === DispenserState.Completed && !this.transactionReported) {
+					this.transactionReported = true;
+					return this.data(`LT${this.transactionRecord()}`);
+				}
+				return this.data(`RV${this.volume.toFixed(2).padStart(7, '0')}`);
+			case 'TP':
+				this.suspendDelivery();
+				return this.ack('OK');
+			case 'SL':
+				this.resumeDelivery();
+				return this.ack('OK');
+			case 'CT':
+				this.clearSale();
+				return this.ack('OK');
+			case 'DM':
+				this.remote = true;
+				return this.ack('OK');
+			case 'AM':
+				this.remote = false;
+				return this.ack('OK');
+			default:
+				return this.nak(frame);
+		}
+	}
+
+	protected nak(_frame: Buffer) {
+		return this.ack('INVALID');
+	}
+
+	private statusText() {
+		switch (this.state) {
+			case DispenserState.Dispensing:
+				return this.isFlowing() ? 'DISP' : 'CALL';
+			case DispenserState.PresetReady:
+			case DispenserState.Authorized:
+			case DispenserState.Suspended:
+				return 'CALL';
+			default:
+				return 'IDLE';
+		}
+	}
+
+	/**
+	 * serial&txn&fuel&density&nozzle&emp&date&time&price&rate&volume&vol_tot&amt_tot&rfid_emp&rfid_noz&vehicle&lat&long&reserved
+	 */
+	private transactionRecord() {
+		const now = new Date();
+		const date = `${now.getDate()}`.padStart(2, '0') + `${now.getMonth() + 1}`.padStart(2, '0') + `${now.getFullYear()}`;
+		const time = [now.getHours(), now.getMinutes(), now.getSeconds()].map((part) => `${part}`.padStart(2, '0')).join('');
+
+		return [
+			this.serialNumber,
+			`${this.batchNumber}`.padStart(6, '0'),
+			'DIESEL',
+			'0.835',
+			'1',
+			'',
+			date,
+			time,
+			(this.volume * this.unitPrice).toFixed(2),
+			this.unitPrice.toFixed(2),
+			this.volume.toFixed(2),
+			this.totalizer.toFixed(2),
+			(this.totalizer * this.unitPrice).toFixed(2),
+			'',
+			'',
+			'',
+			'',
+			'',
+			'',
+		].join('&');
+	}
+
+	private ack(text: string) {
+		return Buffer.from(`#${text}%`, 'ascii');
+	}
+
+	private data(content: string) {
+		return Buffer.from(`#${content}#${this.checksum(`${content}#`)}%`, 'ascii');
+	}
+
+	private checksum(data: string) {
+		const sum = [...data].reduce((acc, char) => acc + char.charCodeAt(0), 0);
+		return (sum % 100).toString(10).padStart(2, '0');
+	}
+}
@@ -0,0 +1,122 @@
+import ModbusRTU from 'modbus-serial';
+import debug from 'debug';
+import { EventEmitter } from 'events';
+import { IGpio } from '../dispenser/interface/IGpio';
+
+const debugLog = debug('dispenser:simulator');
+
+const OVERFLOW = 4294967296;
+
+/**
+ * timeout: leave the next request unanswered, crc: answer it with a damaged reply, refused: refuse the next connect or request
+ */
+export type SenecaFault = 'timeout' | 'crc' | 'refused';
+
+export type SenecaSimulatorOptions = {
+	flowRate?: number; // litres per minute
+	kFactor?: number; // pulses per litre
+	totalizer?: number;
+	overflowRegister?: number;
+	pulseRegister?: number;
+	valvePin?: number; // GateX authorization valve, pulses only count while it is high
+};
+
+/**
+ * Seneca pulse counter behind a modbus client, put in place of Seneca.client so GateX runs unchanged.
+ * The 32 bit pulse register counts at flowRate while the valve the driver switches over gpio is open.
+ */
+export class SenecaSimulator extends ModbusRTU {
+	readonly name = 'Seneca';
+
+	pulses: number;
+	overflowCount: number = 0;
+	flowRate: number;
+	kFactor: number;
+	gpio?: IGpio; // lines the driver switches, the valve is read from them, always open when not set
+
+	private overflowRegister: number;
+	private pulseRegister: number;
+	private valvePin: number;
+	private faults: SenecaFault[] = [];
+	private lastTick: number = Date.now();
+
+	constructor(options: SenecaSimulatorOptions = {}) {
+		super();
+		this.flowRate = options.flowRate ?? 60;
+		this.kFactor = options.kFactor ?? 100;
+		this.pulses = Math.round((options.totalizer ?? 1000) * this.kFactor);
+		this.overflowRegister = options.overflowRegister ?? 8;
+		this.pulseRegister = options.pulseRegister ?? 10;
+		this.valvePin = options.valvePin ?? 26;
+	}
+
+	get totalizer(): number {
+		return this.pulses / this.kFactor;
+	}
+
+	async connectRTU() {
+		this.applyFault();
+		debugLog('%s: connected', this.name);
+	}
+
+	async connectTcpRTUBuffered() {
+		this.applyFault();
+		debugLog('%s: connected over tcp', this.name);
+	}
+
+	/**
+	 * The gateway drops the socket, as modbus-serial reports it.
+	 */
+	drop() {
+		debugLog('%s: dropped', this.name);
+		// the client is an EventEmitter, its typings only declare on()
+		EventEmitter.prototype.emit.call(this, 'close');
+	}
+
+	async readHoldingRegisters(address: number, length: number) {
+		await this.advance();
+		this.applyFault();
+
+		const buffer = Buffer.alloc(length * 2);
+		if (address === this.overflowRegister) {
+			buffer.writeUInt16BE(this.overflowCount, 0);
+		} else if (address === this.pulseRegister) {
+			buffer.writeUInt32BE(this.pulses % OVERFLOW, 0);
+		}
+		return { data: Array.from({ length }, (_, i) => buffer.readUInt16BE(i * 2)), buffer };
+	}
+
+	async writeRegister(address: number, value: number) {
+		this.applyFault();
+		if (address === this.overflowRegister) this.overflowCount = value;
+		return { address, value };
+	}
+
+	close(callback: Function) {
+		debugLog('%s: closed', this.name);
+		callback();
+	}
+
+	injectFault(fault: SenecaFault, count: number = 1) {
+		for (let i = 0; i < count; i++) {
+			this.faults.push(fault);
+		}
+	}
+
+	/* modbus-serial rejects with plain objects carrying an errno, an Error for a bad CRC, the socket error when the gateway refuses */
+	private applyFault() {
+		const fault = this.faults.shift();
+		if (fault === 'timeout') throw { name: 'TransactionTimedOutError', message: 'Timed out', errno: 'ETIMEDOUT' };
+		if (fault === 'crc') throw new Error('CRC error');
+		if (fault === 'refused') throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+	}
+
+	private async advance() {
+		const now = Date.now();
+		const elapsedMinutes = (now - this.lastTick) / 60000;
+		this.lastTick = now;
+		if (this.gpio && !(await this.gpio.read(this.valvePin))) return;
+
+		this.pulses += Math.round(this.flowRate * elapsedMinutes * this.kFactor);
+	}
+}
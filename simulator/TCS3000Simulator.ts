@@ -0,0 +1,132 @@
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { SimulatorOptions, VirtualDispenser } from './VirtualDispenser';
+
+const START = 0x7e;
+const READ = 0x40;
+const WRITE = 0x20;
+const NO_ERROR = 0x00;
+const COMMAND_REFUSED = 0x05;
+
+// reply codes the driver checks in processCommand
+const CODE_OK = 0x11;
+const CODE_PRESET = 0x44;
+const CODE_CANCEL = 0x64;
+const CODE_ACTIVE = 0x23;
+const CODE_PAUSED = 0x43;
+
+const STATUS_CODES: { [state: string]: number } = {
+	[DispenserState.Error]: 0x00,
+	[DispenserState.Idle]: 0x01,
+	[DispenserState.PresetReady]: 0x01,
+	[DispenserState.Authorized]: 0x02,
+	[DispenserState.Dispensing]: 0x02,
+	[DispenserState.Suspended]: 0x04,
+	[DispenserState.Completed]: 0x05,
+	[DispenserState.TicketPending]: 0x06,
+};
+
+/**
+ * TCS 3000: 0x7e <to> <from> <read 0x40 | write 0x20> <command> <length> [data] <crc>,
+ * crc is the Dallas CRC-8 of every byte before it.
+ * Replies carry <error> <reply code> before the data and count both in the length.
+ */
+export class TCS3000Simulator extends VirtualDispenser {
+	readonly name = 'TCS3000';
+	airDetected: boolean = false;
+	productId?: number;
+
+	constructor(options: SimulatorOptions = {}) {
+		super(options);
+	}
+
+	protected frameLength(buffer: Buffer) {
+		if (buffer[0] !== START) return -1;
+		if (buffer.length < 6) return 0;
+
+		const length = 7 + buffer[5];
+		return buffer.length < length ? 0 : length;
+	}
+
+	protected handleFrame(frame: Buffer) {
+		if (crc8(frame.subarray(0, -1)) !== frame[frame.length - 1]) return this.nak(frame);
+
+		const [type, command] = [frame[3], frame[4]];
+		const data = frame.subarray(6, -1);
+
+		if (type === READ) {
+			switch (command) {
+				case 0x1e:
+					return this.reply(frame, CODE_OK, this.doubleBE(this.totalizer));
+				case 0x1f:
+					return this.reply(frame, CODE_OK, [this.statusCode()]);
+				case 0x2b:
+					return this.reply(frame, CODE_OK, this.doubleBE(this.volume));
+			}
+		}
+
+		if (type === WRITE) {
+			switch (command) {
+				case 0x38:
+					if (this.state !== DispenserState.Idle) return this.nak(frame);
+					this.productId = data.readUInt16BE(1);
+					this.setPreset(data.readDoubleBE(3));
+					return this.reply(frame, CODE_PRESET);
+				case 0x36:
+					this.setPreset(0);
+					return this.reply(frame, CODE_CANCEL);
+				case 0x3c:
+					if (this.state !== DispenserState.PresetReady) return this.nak(frame);
+					this.startDelivery();
+					return this.reply(frame, CODE_ACTIVE);
+				case 0x3d:
+					this.stopDelivery();
+					return this.reply(frame, CODE_OK);
+				case 0x39:
+					this.suspendDelivery();
+					return this.reply(frame, CODE_PAUSED);
+				case 0x3a:
+					this.resumeDelivery();
+					return this.reply(frame, CODE_ACTIVE);
+				case 0x3e:
+					this.clearSale();
+					return this.reply(frame, CODE_OK);
+				case 0xf4:
+					this.remote = data[0] === 0x02;
+					return this.reply(frame, CODE_OK);
+			}
+		}
+
+		return this.nak(frame);
+	}
+
+	protected nak(frame: Buffer) {
+		return this.reply(frame, 0x00, [], COMMAND_REFUSED);
+	}
+
+	private statusCode() {
+		if (this.isFlowing() && this.airDetected) return 0x03;
+		return STATUS_CODES[this.state] ?? STATUS_CODES[DispenserState.Idle];
+	}
+
+	private doubleBE(value: number) {
+		const buffer = Buffer.alloc(8);
+		buffer.writeDoubleBE(value);
+		return [...buffer];
+	}
+
+	private reply(request: Buffer, code: number, data: number[] = [], error: number = NO_ERROR) {
+		const bytes = [START, request[2], request[1], request[3], request[4], data.length + 2, error, code, ...data];
+		return Buffer.from([...bytes, crc8(bytes)]);
+	}
+}
+
+function crc8(bytes: Iterable<number>) {
+	let crc = 0;
+	for (const byte of bytes) {
+		crc ^= byte;
+		for (let bit = 0; bit < 8; bit++) {
+			crc = crc & 0x01 ? (crc >> 1) ^ 0x8c : crc >> 1;
+		}
+	}
+	return crc;
+}
@@ -0,0 +1,148 @@
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { SimulatorOptions, VirtualDispenser } from './VirtualDispenser';
+
+const SOH = 0x01;
+const ETX = 0x7f;
+const ACK = 'Y';
+const NAK = 'N';
+
+const STATE_CODES: { [state: string]: number } = {
+	[DispenserState.Idle]: 0x30,
+	[DispenserState.Calling]: 0x31,
+	[DispenserState.PresetReady]: 0x32,
+	[DispenserState.Dispensing]: 0x33,
+	[DispenserState.Completed]: 0x34,
+	[DispenserState.Suspended]: 0x35,
+	[DispenserState.Error]: 0x38,
+	[DispenserState.Authorized]: 0x39,
+};
+
+export type TokhiemSimulatorOptions = SimulatorOptions & {
+	address?: number;
+};
+
+/**
+ * Tokhiem: SOH <address> <command> [data] 0x7f <BCC>, BCC is the XOR of every byte before it.
+ * Numbers are ASCII with a '.' separator, status is <du status bits> <state code>.
+ */
+export class TokhiemSimulator extends VirtualDispenser {
+	readonly name = 'Tokhiem';
+	address: number;
+	pulserError: boolean = false;
+	mainsFail: boolean = false;
+
+	constructor(options: TokhiemSimulatorOptions = {}) {
+		super(options);
+		this.address = options.address ?? 0x41;
+	}
+
+	protected frameLength(buffer: Buffer) {
+		if (buffer[0] !== SOH) return -1;
+
+		const end = buffer.indexOf(ETX);
+		if (end < 0 || buffer.length < end + 2) return 0;
+		return end + 2;
+	}
+
+	protected handleFrame(frame: Buffer) {
+		if (frame[1] !== this.address) return undefined;
+		if (this.bcc(frame.subarray(0, -1)) !== frame[frame.length - 1]) return this.nak(frame);
+
+		switch (String.fromCharCode(frame[2])) {
+			case 'S':
+				return this.reply('S', Buffer.from([this.duStatus(), this.stateCode()]));
+			case 'T':
+				return this.reply('T', this.formatNumber(this.totalizer, 8, 2));
+			case 'R':
+				return this.reply(
+					'R',
+					`${this.formatNumber(this.unitPrice, 2, 3)}${this.formatNumber(this.volume, 4, 3)}${this.formatNumber(this.volume * this.unitPrice, 5, 1)}`
+				);
+			case 'H':
+				return this.reply('H', this.formatNumber(this.preset, 7, 2));
+			case 'P': {
+				if (![DispenserState.Idle, DispenserState.PresetReady].includes(this.state)) return this.nak(frame);
+				// <kind> '0' <4 integer digits> <2 decimals>, kind '2' is an amount converted at the unit price
+				const value = parseInt(frame.subarray(5, 11).toString('ascii')) / 100;
+				this.setPreset(frame[3] === 0x32 ? Math.round((value / this.unitPrice) * 100) / 100 : value);
+				return this.reply(ACK);
+			}
+			case 'K': {
+				// price changes only between sales, <2 integer digits> '.' <3 decimals>
+				if (![DispenserState.Idle, DispenserState.PresetReady].includes(this.state)) return this.nak(frame);
+				const price = parseFloat(frame.subarray(3, -2).toString('ascii'));
+				if (!(price > 0)) return this.nak(frame);
+				this.unitPrice = price;
+				return this.reply(ACK);
+			}
+			case 'E':
+				this.setPreset(0);
+				return this.reply(ACK);
+			case 'A':
+				if (this.state !== DispenserState.PresetReady) return this.nak(frame);
+				this.authorize();
+				return this.reply(ACK);
+			case 'O':
+				if (this.state !== DispenserState.Authorized) return this.nak(frame);
+				this.startDelivery();
+				return this.reply(ACK);
+			case 'Z':
+				this.stopDelivery();
+				return this.reply(ACK);
+			case 'D':
+				this.suspendDelivery();
+				return this.reply(ACK);
+			case 'U':
+				this.resumeDelivery();
+				return this.reply(ACK);
+			case 'F':
+				this.clearSale();
+				return this.reply(ACK);
+			case 'G':
+				this.remote = false;
+				return this.reply(ACK);
+			case 'C':
+				return this.reply(ACK);
+			default:
+				return this.nak(frame);
+		}
+	}
+
+	protected nak(_frame: Buffer) {
+		return this.reply(NAK);
+	}
+
+	private duStatus() {
+		let status = 0;
+		if (this.nozzleOnHook) status |= 1 << 0;
+		if (this.isFlowing()) status |= 1 << 1;
+		if (this.remote) status |= 1 << 2;
+		if (this.pulserError) status |= 1 << 3;
+		if (this.mainsFail) status |= 1 << 5;
+		return status;
+	}
+
+	private stateCode() {
+		if (this.state === DispenserState.Idle && !this.nozzleOnHook) {
+			return STATE_CODES[DispenserState.Calling];
+		}
+		return STATE_CODES[this.state] ?? STATE_CODES[DispenserState.Idle];
+	}
+
+	/**
+	 * fixed width ASCII number, e.g. (12.5, 4, 3) -> "0012.500"
+	 */
+	private formatNumber(value: number, integerDigits: number, fractionDigits: number) {
+		const [integer, fraction] = value.toFixed(fractionDigits).split('.');
+		return `${integer.padStart(integerDigits, '0').slice(-integerDigits)}.${fraction}`;
+	}
+
+	private reply(command: string, data: Buffer | string = '') {
+		const body = Buffer.concat([Buffer.from([SOH, this.address, command.charCodeAt(0)]), Buffer.from(data), Buffer.from([ETX])]);
+		return Buffer.concat([body, Buffer.from([this.bcc(body)])]);
+	}
+
+	private bcc(data: Buffer) {
+		return data.reduce((acc, byte) => acc ^ byte, 0);
+	}
+}
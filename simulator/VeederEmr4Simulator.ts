@@ -0,0 +1,233 @@
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { SimulatorOptions, VirtualDispenser } from './VirtualDispenser';
+import { decodeEmr4Frame, EMR4_ACK, EMR4_FLAG, EMR4_HOST, EMR4_METER, EMR4_NAK, encodeEmr4Frame } from '../dispenser/parsers/VeederEmr4Codec';
+
+const ACK = [EMR4_ACK, 0x00];
+const NAK = [EMR4_NAK, 0x00];
+
+// bit positions of the delivery status word, see VeederEmr4.deliveryStatus
+const DELIVERY_ERROR = 15;
+const DELIVERY_COMPLETED = 14;
+const DELIVERY_ACTIVE = 10;
+const FLOW_ACTIVE = 9;
+const TICKET_PENDING = 8;
+const WAITING_FOR_AUTHORIZATION = 7;
+const ATC_ACTIVE = 13;
+const NET_PRESET_ACTIVE = 11;
+const PAUSE_DELIVERY = 5;
+const PRESET_STOP = 3;
+
+// volume correction per °C away from 15 °C, diesel
+const EXPANSION_COEFFICIENT = 0.00084;
+
+export type VeederEmr4SimulatorOptions = SimulatorOptions & {
+	atc?: boolean; // temperature compensation, a meter without it refuses the net commands
+	temperature?: number; // °C
+	ticketPrinter?: boolean; // completed deliveries wait for their ticket
+	printDurationMs?: number;
+};
+
+/**
+ * Veeder Root EMR4: 0x7e <to> <from> <command> <sub command> [data] <checksum> 0x7e,
+ * checksum is the two's complement of the byte sum between the flags, the content is byte stuffed.
+ */
+export class VeederEmr4Simulator extends VirtualDispenser {
+	readonly name = 'VeederEmr4';
+	deliveryError: boolean = false;
+	atc: boolean;
+	temperature: number;
+	netPreset: number = 0; // set while the preset counts net litres
+	ticketPrinter: boolean;
+	ticketPending: boolean = false;
+	printing: boolean = false;
+	paperOut: boolean = false;
+	printDurationMs: number;
+	protected checksumOffset = 2;
+
+	constructor(options: VeederEmr4SimulatorOptions = {}) {
+		super(options);
+		this.atc = options.atc ?? false;
+		this.temperature = options.temperature ?? 15;
+		this.ticketPrinter = options.ticketPrinter ?? false;
+		this.printDurationMs = options.printDurationMs ?? 100;
+	}
+
+	/**
+	 * net litres at 15 °C per metered litre at the current temperature
+	 */
+	volumeCorrectionFactor() {
+		return 1 - EXPANSION_COEFFICIENT * (this.temperature - 15);
+	}
+
+	protected frameLength(buffer: Buffer) {
+		if (buffer[0] !== EMR4_FLAG) return -1;
+
+		const end = buffer.indexOf(EMR4_FLAG, 1);
+		if (end < 0) return 0;
+		if (end === 1) return 1; // back to back flags, drop the first one
+		return end + 1;
+	}
+
+	protected handleFrame(frame: Buffer) {
+		if (frame.length < 6) return undefined;
+
+		let decoded;
+		try {
+			decoded = decodeEmr4Frame(frame);
+		} catch {
+			return this.nak(frame);
+		}
+		if (decoded.to !== EMR4_METER) return undefined;
+
+		const { command, sub, data } = decoded;
+
+		switch (`${command.toString(16)}:${sub.toString(16)}`) {
+			case '54:3':
+				return this.reply([command, sub, ...this.statusBytes()]);
+			case '54:5':
+				return this.reply([command, sub, this.remote ? 0x01 : 0x00]);
+			case '47:6c':
+				return this.reply([command, sub, ...this.asciiBytes(this.totalizer)]);
+			case '47:6b':
+			case '47:4b':
+				return this.reply([command, sub, ...this.doubleLE(this.volume)]);
+			case '47:6e':
+				return this.reply([command, sub, ...this.floatLE(this.preset)]);
+			case '47:6a':
+				if (!this.atc) return this.nak(frame);
+				return this.reply([command, sub, ...this.doubleLE(this.volume * this.volumeCorrectionFactor())]);
+			case '47:6d':
+				if (!this.atc) return this.nak(frame);
+				return this.reply([command, sub, ...this.asciiBytes(this.totalizer * this.volumeCorrectionFactor())]);
+			case '47:6f':
+				if (!this.atc) return this.nak(frame);
+				return this.reply([command, sub, ...this.floatLE(this.netPreset)]);
+			case '47:74':
+				if (!this.atc) return this.nak(frame);
+				return this.reply([command, sub, ...this.floatLE(this.temperature)]);
+			case '47:70':
+				return this.reply([command, sub, ...this.floatLE(this.unitPrice)]);
+			case '53:70':
+				// price changes only between sales
+				if (![DispenserState.Idle, DispenserState.PresetReady].includes(this.state)) return this.nak(frame);
+				this.unitPrice = Math.round(data.readFloatLE(0) * 1000) / 1000;
+				return this.reply(ACK);
+			case '53:6e':
+				this.netPreset = 0;
+				this.setPreset(Math.round(data.readFloatLE(0) * 100) / 100);
+				return this.reply(ACK);
+			case '53:6f': {
+				// stops at the gross volume that holds the net quantity at the current temperature
+				if (!this.atc) return this.nak(frame);
+				this.netPreset = Math.round(data.readFloatLE(0) * 100) / 100;
+				this.setPreset(this.netPreset / this.volumeCorrectionFactor());
+				return this.reply(ACK);
+			}
+			case '44:25':
+				// the pump motor is switched over GPIO, pumpStart sends this frame right before it
+				this.remote = data[0] === 0x01;
+				if (this.remote && this.state === DispenserState.Authorized) this.startDelivery();
+				return this.reply(ACK);
+			case '4f:6':
+				if (this.state !== DispenserState.PresetReady) return this.nak(frame);
+				this.authorize();
+				return this.reply(ACK);
+			case '4f:2':
+				this.suspendDelivery();
+				return this.reply(ACK);
+			case '4f:1':
+				this.resumeDelivery();
+				return this.reply(ACK);
+			case '4f:3':
+				this.stopDelivery();
+				return this.reply(ACK);
+			case '4f:4':
+				if (!this.ticketPrinter || !this.ticketPending || this.printing || this.paperOut) return this.nak(frame);
+				this.printTicket();
+				return this.reply(ACK);
+			case '4f:5':
+				if (this.printing) return this.nak(frame);
+				this.ticketPending = false;
+				return this.reply(ACK);
+			case '54:b':
+				return this.reply([command, sub, this.printerStatus()]);
+			case '52:0':
+				if (this.ticketPending) return this.nak(frame);
+				this.netPreset = 0;
+				this.clearSale();
+				return this.reply(ACK);
+			case '53:75':
+			case '54:8':
+				return this.reply(ACK);
+			default:
+				return this.nak(frame);
+		}
+	}
+
+	protected nak(_frame: Buffer) {
+		return this.reply(NAK);
+	}
+
+	protected completeDelivery() {
+		super.completeDelivery();
+		if (this.ticketPrinter && this.volume > 0) this.ticketPending = true;
+	}
+
+	private printTicket() {
+		this.printing = true;
+		setTimeout(() => {
+			this.printing = false;
+			this.ticketPending = false;
+			this.emit('ticket');
+		}, this.printDurationMs).unref();
+	}
+
+	private printerStatus() {
+		let status = 0;
+		if (this.ticketPrinter) status |= 0x01;
+		if (this.printing) status |= 0x02;
+		if (this.paperOut) status |= 0x04;
+		return status;
+	}
+
+	private statusBytes() {
+		let status = 0;
+		const set = (bit: number, value: boolean) => {
+			if (value) status |= 1 << bit;
+		};
+		set(DELIVERY_ERROR, this.deliveryError);
+		set(DELIVERY_COMPLETED, this.state === DispenserState.Completed);
+		set(ATC_ACTIVE, this.atc);
+		set(TICKET_PENDING, this.ticketPending);
+		set(NET_PRESET_ACTIVE, this.netPreset > 0);
+		set(DELIVERY_ACTIVE, [DispenserState.Authorized, DispenserState.Dispensing, DispenserState.Suspended].includes(this.state));
+		set(FLOW_ACTIVE, this.isFlowing());
+		set(WAITING_FOR_AUTHORIZATION, this.state === DispenserState.PresetReady);
+		set(PAUSE_DELIVERY, this.state === DispenserState.Suspended);
+		set(PRESET_STOP, this.state === DispenserState.Completed && this.preset > 0 && this.volume >= this.preset);
+		return [status & 0xff, (status >> 8) & 0xff];
+	}
+
+	/**
+	 * NUL terminated ASCII totalizer
+	 */
+	private asciiBytes(value: number) {
+		return [...Buffer.from(value.toFixed(2), 'ascii'), 0x00];
+	}
+
+	private doubleLE(value: number) {
+		const buffer = Buffer.alloc(8);
+		buffer.writeDoubleLE(value);
+		return [...buffer];
+	}
+
+	private floatLE(value: number) {
+		const buffer = Buffer.alloc(4);
+		buffer.writeFloatLE(value);
+		return [...buffer];
+	}
+
+	private reply([command, sub, ...data]: number[]) {
+		return encodeEmr4Frame({ to: EMR4_HOST, from: EMR4_METER, command, sub, data: Buffer.from(data) });
+	}
+}
@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import debug from 'debug';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+
+const debugLog = debug('dispenser:simulator');
+
+/**
+ * timeout: swallow the next frame, nak: refuse it, badChecksum: answer with a corrupted checksum
+ */
+export type SimulatorFault = 'timeout' | 'nak' | 'badChecksum';
+
+export type SimulatorOptions = {
+	flowRate?: number; // litres per minute
+	totalizer?: number;
+	unitPrice?: number;
+	responseDelayMs?: number;
+	autoNozzle?: boolean; // lift the nozzle when the delivery starts and hang it up when it ends
+};
+
+/**
+ * Stateful dispenser behind a virtual serial port.
+ * Protocol subclasses split the incoming bytes into frames and answer them,
+ * the base keeps the sale state, simulates flow and applies injected faults.
+ *
+ * Events: `frame` (request Buffer), `reply` (response Buffer), `state` (state, previous), `nozzle` (onHook)
+ */
+export abstract class VirtualDispenser extends EventEmitter {
+	abstract readonly name: string;
+
+	state: DispenserState = DispenserState.Idle;
+	preset: number = 0;
+	volume: number = 0;
+	totalizer: number;
+	unitPrice: number;
+	flowRate: number;
+	nozzleOnHook: boolean = true;
+	remote: boolean = true;
+	batchNumber: number = 1;
+	responseDelayMs: number;
+	autoNozzle: boolean;
+
+	/**
+	 * index of the checksum byte counted from the end of a reply, used by the badChecksum fault
+	 */
+	protected checksumOffset: number = 1;
+
+	private buffer: Buffer = Buffer.alloc(0);
+	private faults: SimulatorFault[] = [];
+	private lastTick: number = Date.now();
+	private output?: (data: Buffer) => void;
+
+	constructor(options: SimulatorOptions = {}) {
+		super();
+		this.flowRate = options.flowRate ?? 60;
+		this.totalizer = options.totalizer ?? 1000;
+		this.unitPrice = options.unitPrice ?? 1;
+		this.responseDelayMs = options.responseDelayMs ?? 5;
+		this.autoNozzle = options.autoNozzle ?? true;
+	}
+
+	/**
+	 * Length of the first complete frame in buffer, 0 when more bytes are needed and -1 to drop a leading byte.
+	 */
+	protected abstract frameLength(buffer: Buffer): number;
+
+	/**
+	 * Answer one request frame, undefined for no answer.
+	 */
+	protected abstract handleFrame(frame: Buffer): Buffer | undefined;
+
+	/**
+	 * Negative acknowledge for a request frame.
+	 */
+	protected abstract nak(frame: Buffer): Buffer;
+
+	connect(output: (data: Buffer) => void) {
+		this.output = output;
+	}
+
+	/**
+	 * Bytes written by the driver.
+	 */
+	receive(data: Buffer) {
+		this.buffer = Buffer.concat([this.buffer, data]);
+
+		let length: number;
+		while (this.buffer.length && (length = this.frameLength(this.buffer)) !== 0) {
+			if (length < 0) {
+				this.buffer = this.buffer.subarray(1);
+				continue;
+			}
+
+			const frame = this.buffer.subarray(0, length);
+			this.buffer = this.buffer.subarray(length);
+			this.respond(frame);
+		}
+	}
+
+	injectFault(fault: SimulatorFault, count: number = 1) {
+		for (let i = 0; i < count; i++) {
+			this.faults.push(fault);
+		}
+	}
+
+	clearFaults() {
+		this.faults = [];
+	}
+
+	liftNozzle() {
+		this.setNozzle(false);
+	}
+
+	hangUpNozzle() {
+		this.setNozzle(true);
+	}
+
+	/**
+	 * Send a frame the driver did not ask for.
+	 */
+	sendUnsolicited(data: Buffer) {
+		this.send(data);
+	}
+
+	/**
+	 * Current flow in litres per minute.
+	 */
+	currentFlowRate() {
+		return this.isFlowing() ? this.flowRate : 0;
+	}
+
+	isFlowing() {
+		return this.state === DispenserState.Dispensing && !this.nozzleOnHook;
+	}
+
+	protected setPreset(quantity: number) {
+		this.preset = quantity;
+		this.setState(quantity > 0 ? DispenserState.PresetReady : DispenserState.Idle);
+	}
+
+	protected authorize() {
+		this.setState(DispenserState.Authorized);
+	}
+
+	protected startDelivery() {
+		this.setState(DispenserState.Dispensing);
+		if (this.autoNozzle) this.setNozzle(false);
+	}
+
+	protected suspendDelivery() {
+		if (this.state === DispenserState.Dispensing) {
+			this.setState(DispenserState.Suspended);
+		}
+	}
+
+	protected resumeDelivery() {
+		if (this.state === DispenserState.Suspended) {
+			this.setState(DispenserState.Dispensing);
+		}
+	}
+
+	protected stopDelivery() {
+		this.advance();
+		if ([DispenserState.Authorized, DispenserState.Dispensing, DispenserState.Suspended].includes(this.state)) {
+			this.completeDelivery();
+		}
+	}
+
+	protected clearSale() {
+		if (this.volume > 0) this.batchNumber++;
+		this.volume = 0;
+		this.preset = 0;
+		this.setState(DispenserState.Idle);
+	}
+
+	protected setState(next: DispenserState) {
+		this.advance();
+		if (next === this.state) return;
+
+		const previous = this.state;
+		debugLog('%s: %s -> %s', this.name, previous, next);
+		this.state = next;
+		this.emit('state', next, previous);
+	}
+
+	/**
+	 * Move the sale forward to now, flow only runs while dispensing with the nozzle off hook.
+	 */
+	protected advance() {
+		const now = Date.now();
+		const elapsed = now - this.lastTick;
+		this.lastTick = now;
+		if (!this.isFlowing()) return;
+
+		let delta = (this.flowRate / 60000) * elapsed;
+		if (this.preset > 0) {
+			delta = Math.min(delta, this.preset - this.volume);
+		}
+
+		this.volume += delta;
+		this.totalizer += delta;
+
+		if (this.preset > 0 && this.volume >= this.preset) {
+			debugLog('%s: preset %d reached', this.name, this.preset);
+			this.completeDelivery();
+		}
+	}
+
+	/**
+	 * Called after advance(), so it must not tick the flow again.
+	 */
+	protected completeDelivery() {
+		const previous = this.state;
+		this.state = DispenserState.Completed;
+		this.emit('state', this.state, previous);
+		if (this.autoNozzle) this.setNozzle(true);
+	}
+
+	private setNozzle(onHook: boolean) {
+		this.advance();
+		if (this.nozzleOnHook === onHook) return;
+
+		debugLog('%s: nozzle %s', this.name, onHook ? 'on hook' : 'off hook');
+		this.nozzleOnHook = onHook;
+		this.emit('nozzle', onHook);
+	}
+
+	private respond(frame: Buffer) {
+		debugLog('%s: <- %s', this.name, frame.toString('hex'));
+		this.emit('frame', frame);
+		this.advance();
+
+		const fault = this.faults.shift();
+		if (fault === 'timeout') {
+			debugLog('%s: fault timeout, not answering', this.name);
+			return;
+		}
+
+		let reply = fault === 'nak' ? this.nak(frame) : this.handleFrame(frame);
+		if (!reply) return;
+
+		if (fault === 'badChecksum') {
+			reply = Buffer.from(reply);
+			reply[reply.length - this.checksumOffset] ^= 0x01;
+		}
+
+		this.send(reply);
+	}
+
+	private send(reply: Buffer) {
+		setTimeout(() => {
+			debugLog('%s: -> %s', this.name, reply.toString('hex'));
+			this.emit('reply', reply);
+			this.output?.(reply);
+		}, this.responseDelayMs);
+	}
+}
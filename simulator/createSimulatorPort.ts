@@ -0,0 +1,36 @@
+import { SerialPort, SerialPortOpenOptions } from 'serialport';
+import { AutoDetectTypes } from '@serialport/bindings-cpp';
+import { MockBinding, MockPortBinding } from '@serialport/binding-mock';
+import { VirtualDispenser } from './VirtualDispenser';
+
+let portCount = 0;
+
+/**
+ * Real SerialPort on the mock binding, wired to a simulator.
+ * Drivers take it like any other port, so they run unchanged against the simulator.
+ * Several simulators on one port share the line like pumps on an RS-485 bus, each answers its own address.
+ */
+export function createSimulatorPort(simulator: VirtualDispenser | VirtualDispenser[], options: { path?: string; baudRate?: number } = {}): SerialPort {
+	const path = options.path || `/dev/ttySIM${portCount++}`;
+	MockBinding.createPort(path, { echo: false, record: false });
+
+	const port = new SerialPort({
+		path,
+		baudRate: options.baudRate || 9600,
+		binding: MockBinding,
+	} as SerialPortOpenOptions<AutoDetectTypes>);
+
+	// registered before any write, so writes queued until open already reach the simulator
+	const simulators = Array.isArray(simulator) ? simulator : [simulator];
+	port.once('open', () => {
+		const binding = port.port as unknown as MockPortBinding;
+		const write = binding.write.bind(binding);
+		binding.write = async (buffer: Buffer) => {
+			await write(buffer);
+			simulators.forEach((simulator) => simulator.receive(buffer));
+		};
+		simulators.forEach((simulator) => simulator.connect((data) => binding.isOpen && binding.emitData(data)));
+	});
+
+	return port;
+}
@@ -0,0 +1,91 @@
+import { CommandQueue, PRIORITY_HIGH } from '../dispenser/base/CommandQueue';
+import { delay } from '../utils/delay';
+
+describe('CommandQueue', () => {
+	let queue: CommandQueue;
+	let order: string[];
+
+	const task = (command: string, ms: number = 20, timeoutMs: number = 1000) => ({
+		command,
+		timeoutMs,
+		run: async () => {
+			order.push(`start:${command}`);
+			await delay(ms);
+			order.push(`end:${command}`);
+			return command;
+		},
+	});
+
+	beforeEach(() => {
+		queue = new CommandQueue();
+		order = [];
+	});
+
+	it('should run commands one at a time in FIFO order', async () => {
+		const results = await Promise.all([queue.push(task('readSale')), queue.push(task('readStatus')), queue.push(task('totalizer'))]);
+		expect(results).toEqual(['readSale', 'readStatus', 'totalizer']);
+		expect(order).toEqual([
+			'start:readSale',
+			'end:readSale',
+			'start:readStatus',
+			'end:readStatus',
+			'start:totalizer',
+			'end:totalizer',
+		]);
+	});
+
+	it('should run priority commands before waiting normal commands', async () => {
+		const first = queue.push(task('readSale'));
+		await delay(5);
+		const second = queue.push(task('readStatus'));
+		const stop = queue.push(task('pumpStop'), PRIORITY_HIGH);
+		await Promise.all([first, second, stop]);
+		expect(order.filter((entry) => entry.startsWith('start'))).toEqual(['start:readSale', 'start:pumpStop', 'start:readStatus']);
+	});
+
+	it('should reject a command that exceeds its timeout and move on', async () => {
+		const onTimeout = jest.fn();
+		const slow = queue.push({ ...task('readSale', 200, 50), onTimeout });
+		const next = queue.push(task('readStatus'));
+		await expect(slow).rejects.toThrow('Command readSale timed out after 50ms');
+		expect(onTimeout).toHaveBeenCalled();
+		await expect(next).resolves.toBe('readStatus');
+	});
+
+	it('should abort a timed out command and hold the next one until it settles', async () => {
+		const writes: string[] = [];
+		const preset = queue.push({
+			command: 'sendPreset',
+			timeoutMs: 30,
+			run: async (signal: AbortSignal) => {
+				writes.push('sendPreset:select');
+				await delay(60);
+				if (signal.aborted) return;
+				writes.push('sendPreset:value');
+			},
+		});
+		const next = queue.push({
+			command: 'readStatus',
+			timeoutMs: 1000,
+			run: async () => {
+				writes.push('readStatus');
+				return 'readStatus';
+			},
+		});
+
+		await expect(preset).rejects.toThrow('Command sendPreset timed out after 30ms');
+		expect(writes).toEqual(['sendPreset:select']);
+		await expect(next).resolves.toBe('readStatus');
+		expect(writes).toEqual(['sendPreset:select', 'readStatus']);
+	});
+
+	it('should reject waiting commands on reset', async () => {
+		const inFlight = queue.push(task('readSale', 50));
+		const waiting = queue.push(task('readStatus'));
+		await delay(10);
+		queue.reset();
+		await expect(waiting).rejects.toThrow('Command queue reset: readStatus not sent');
+		await expect(inFlight).resolves.toBe('readSale');
+		expect(queue.length()).toBe(0);
+	});
+});
@@ -0,0 +1,224 @@
+import { DeliverySession, DeliverySessionState } from '../dispenser/workflows/DeliverySession';
+import { createCapabilities } from '../dispenser/interface/DispenserCapabilities';
+import { GateX } from '../dispenser/GateX';
+import { Neogi } from '../dispenser/Neogi';
+import { UnsupportedOperationError } from '../dispenser/errors';
+import { MockGpio } from '../dispenser/gpio/MockGpio';
+import { NeogiSimulator } from '../simulator/NeogiSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+import { Seneca } from '../dispenser/workflows/GateX';
+import { SenecaSimulator } from '../simulator/SenecaSimulator';
+import { delay } from '../utils/delay';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rm } from 'fs/promises';
+
+/**
+ * Minimal in-memory dispenser, every command answers immediately
+ */
+function createFakeDispenser() {
+	let volume = 0;
+	let totalizer = 1000;
+	const calls: string[] = [];
+
+	const dispenser: any = {
+		execute: async (callee: any, bindFunction?: any, calleeArgs?: any) => {
+			const data = await callee.call(dispenser, ...(Array.isArray(calleeArgs) ? calleeArgs : [calleeArgs]));
+			return bindFunction ? bindFunction.call(dispenser, data, calleeArgs, callee.name) : data;
+		},
+		readStatus: async () => (volume > 0 && volume < 10 ? 'DISP' : 'IDLE'),
+		readPreset: async () => '10',
+		setPreset: async () => calls.push('setPreset') && 'OK',
+		authorizeSale: async () => calls.push('authorizeSale') && 'OK',
+		pumpStart: async () => calls.push('pumpStart') && 'OK',
+		pumpStop: async () => calls.push('pumpStop') && 'OK',
+		clearSale: async () => calls.push('clearSale') && 'OK',
+		readSale: async () => {
+			volume += 5;
+			totalizer += 5;
+			return String(volume);
+		},
+		totalizer: async () => String(totalizer),
+		processCommand: (res: string) => res === 'OK',
+		processTotalizerWithBatch: (res: string) => ({ totalizer: parseFloat(res), timestamp: Date.now() }),
+		isOrderComplete: (res: string, quantity: number) => ({ status: parseFloat(res) >= quantity, dispensedQty: parseFloat(res) }),
+		isPresetAvailable: () => true,
+		isReadyForPreset: (res: string) => res === 'IDLE',
+		isPresetVerified: (res: string, quantity: number) => parseFloat(res) == quantity,
+		isDispensing: (res: string) => res === 'DISP',
+		isSaleCloseable: (res: string) => res === 'IDLE',
+		getCapabilities: () => createCapabilities({ presetByVolume: true, pumpStart: true }),
+	};
+
+	return { dispenser, calls };
+}
+
+describe('DeliverySession', () => {
+	it('should run a sale end to end and record totalizers', async () => {
+		const { dispenser, calls } = createFakeDispenser();
+		const session = new DeliverySession(dispenser, { quantity: 10, pollIntervalMs: 1 });
+		const states: DeliverySessionState[] = [];
+		session.on('state', (state) => states.push(state));
+
+		const summary = await session.run();
+
+		expect(calls).toEqual(['setPreset', 'authorizeSale', 'pumpStart', 'pumpStop', 'clearSale']);
+		expect(states).toEqual([
+			DeliverySessionState.Presetting,
+			DeliverySessionState.Verifying,
+			DeliverySessionState.Authorizing,
+			DeliverySessionState.StartingPump,
+			DeliverySessionState.Dispensing,
+			DeliverySessionState.Closing,
+			DeliverySessionState.Completed,
+		]);
+		expect(summary.startTotalizer?.totalizer).toBe(1000);
+		expect(summary.endTotalizer?.totalizer).toBe(1010);
+		expect(summary.dispensedQty).toBe(10);
+	});
+
+	it('should print a pending ticket before clearing the sale', async () => {
+		const { dispenser, calls } = createFakeDispenser();
+		let ticketPending = true;
+		dispenser.isTicketPending = () => ticketPending;
+		dispenser.getCapabilities = () => createCapabilities({ presetByVolume: true, pumpStart: true, onboardPrinter: true });
+		let printing = false;
+		dispenser.printTicket = async () => {
+			calls.push('printTicket');
+			ticketPending = false;
+			printing = true;
+			setTimeout(() => (printing = false), 5);
+			return 'OK';
+		};
+		dispenser.readPrinterStatus = async () => (printing ? 'BUSY' : 'READY');
+		dispenser.processPrinterStatus = (res: string) => ({ online: true, printing: res === 'BUSY', paperOut: false });
+		dispenser.clearSale = async () => calls.push(printing ? 'clearSale while printing' : 'clearSale') && 'OK';
+
+		await new DeliverySession(dispenser, { quantity: 10, pollIntervalMs: 1 }).run();
+		expect(calls).toEqual(['setPreset', 'authorizeSale', 'pumpStart', 'pumpStop', 'printTicket', 'clearSale']);
+	});
+
+	it('should fail when the preset cannot be verified in time', async () => {
+		const { dispenser } = createFakeDispenser();
+		dispenser.readPreset = async () => '0';
+		const session = new DeliverySession(dispenser, { quantity: 10, pollIntervalMs: 1, timeouts: { preset: 20 } });
+		const failed = jest.fn();
+		session.on('failed', failed);
+
+		await expect(session.run()).rejects.toThrow('Delivery step preset verified timed out after 20ms');
+		expect(session.state).toBe(DeliverySessionState.Failed);
+		expect(failed).toHaveBeenCalled();
+	});
+
+	it('should stop the pump and clear the sale when dispensing times out', async () => {
+		const { dispenser, calls } = createFakeDispenser();
+		let started = false;
+		let stopped = false;
+		dispenser.readSale = async () => '5';
+		dispenser.readStatus = async () => (started && !stopped ? 'DISP' : 'IDLE');
+		dispenser.pumpStart = async () => calls.push('pumpStart') && (started = true) && 'OK';
+		dispenser.pumpStop = async () => calls.push('pumpStop') && (stopped = true) && 'OK';
+		const session = new DeliverySession(dispenser, { quantity: 10, pollIntervalMs: 1, timeouts: { dispensing: 20 } });
+
+		await expect(session.run()).rejects.toThrow('Delivery step dispensing timed out after 20ms');
+		expect(session.state).toBe(DeliverySessionState.Failed);
+		expect(calls).toEqual(['setPreset', 'authorizeSale', 'pumpStart', 'pumpStop', 'clearSale']);
+	});
+
+	it('should leave the sale open when the pump does not stop after a failure', async () => {
+		const { dispenser, calls } = createFakeDispenser();
+		dispenser.readSale = async () => {
+			throw new Error('no reply');
+		};
+		dispenser.pumpStop = async () => calls.push('pumpStop') && 'NAK';
+
+		await expect(new DeliverySession(dispenser, { quantity: 10, pollIntervalMs: 1 }).run()).rejects.toThrow('no reply');
+		expect(calls).toEqual(['setPreset', 'authorizeSale', 'pumpStart', 'pumpStop']);
+	});
+
+	it('should not stop the pump when the preset fails', async () => {
+		const { dispenser, calls } = createFakeDispenser();
+		dispenser.readPreset = async () => '0';
+
+		await expect(new DeliverySession(dispenser, { quantity: 10, pollIntervalMs: 1, timeouts: { preset: 20 } }).run()).rejects.toThrow();
+		expect(calls).toEqual(['setPreset']);
+	});
+
+	it('should name a read the dispenser does not have', async () => {
+		const { dispenser } = createFakeDispenser();
+		delete dispenser.readStatus;
+
+		await expect(new DeliverySession(dispenser, { quantity: 10 }).run()).rejects.toThrow(UnsupportedOperationError);
+	});
+
+	it('should reject invalid quantities', () => {
+		const { dispenser } = createFakeDispenser();
+		expect(() => new DeliverySession(dispenser, { quantity: 0 })).toThrow('Invalid quantity: 0');
+	});
+});
+
+describe('DeliverySession on GateX', () => {
+	const totalizerFile = join(tmpdir(), `gatex-session-${process.pid}.json`);
+
+	afterAll(() => rm(totalizerFile, { force: true }));
+
+	it('should run a sale without starting the pump, the valve lets the fuel through', async () => {
+		const options = {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'GateX',
+			kFactor: 100,
+			totalizerFile,
+			gpio: { backend: 'mock' as const },
+		};
+		const simulator = new SenecaSimulator({ flowRate: 600, kFactor: 100, totalizer: 500 });
+		const seneca = new Seneca(options);
+		seneca.client = simulator;
+		const dispenser = new GateX(seneca, undefined, options);
+		simulator.gpio = dispenser.gpio;
+		await dispenser.connection;
+		await delay(600);
+
+		const pumpStart = jest.spyOn(dispenser, 'pumpStart');
+		const summary = await new DeliverySession(dispenser, { quantity: 5, pollIntervalMs: 100 }).run();
+
+		expect(pumpStart).not.toHaveBeenCalled();
+		expect(summary.startTotalizer?.totalizer).toBe(500);
+		expect(summary.dispensedQty).toBeGreaterThan(4);
+		expect(await dispenser.gpio.read(26)).toBe(false);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+});
+
+describe('DeliverySession on Neogi', () => {
+	it('should run a sale where the preset authorizes and nothing is read back', async () => {
+		const simulator = new NeogiSimulator({ flowRate: 600, totalizer: 4142.02 });
+		const dispenser = new Neogi(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Neogi',
+			interByteTimeoutInterval: 10,
+			gpio: { backend: 'mock', pins: { nozzle: 5 } },
+		});
+		(dispenser.gpio as MockGpio).setLevel(5, true);
+		const session = new DeliverySession(dispenser, { quantity: 2.5, pollIntervalMs: 50 });
+		const states: DeliverySessionState[] = [];
+		session.on('state', (state) => states.push(state));
+
+		const summary = await session.run();
+
+		expect(states).toEqual([
+			DeliverySessionState.Presetting,
+			DeliverySessionState.Authorizing,
+			DeliverySessionState.StartingPump,
+			DeliverySessionState.Dispensing,
+			DeliverySessionState.Closing,
+			DeliverySessionState.Completed,
+		]);
+		expect(summary.startTotalizer?.totalizer).toBe(4142.02);
+		expect(summary.dispensedQty).toBe(2.5);
+		expect(simulator.state).toBe(DispenserState.Idle);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+});
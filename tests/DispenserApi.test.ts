@@ -0,0 +1,52 @@
+import { Tokhiem } from '../dispenser/Tokhiem';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { DispenserApi } from '../dispenser/workflows/DispenserApi';
+import { NakError, UnsupportedOperationError } from '../dispenser/errors';
+import { TokhiemSimulator } from '../simulator/TokhiemSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+import { delay } from '../utils/delay';
+
+describe('DispenserApi', () => {
+	let simulator: TokhiemSimulator;
+	let dispenser: Tokhiem;
+
+	beforeEach(() => {
+		simulator = new TokhiemSimulator({ flowRate: 600, totalizer: 1000 });
+		dispenser = new Tokhiem(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Tokhiem',
+			interByteTimeoutInterval: 10,
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should pair each command with its parser', async () => {
+		expect((await dispenser.api.totalizer()).totalizer).toBe(1000);
+		expect(await dispenser.api.setPreset(5)).toEqual({ command: 'setPreset', acknowledged: true });
+		expect(await dispenser.api.readPreset()).toBe(5);
+		expect((await dispenser.api.readStatus()).state).toBe(DispenserState.PresetReady);
+
+		await dispenser.api.authorizeSale();
+		await dispenser.api.pumpStart();
+		await delay(200);
+
+		const sale = await dispenser.api.readSale(5);
+		expect(sale.dispensedQty).toBeGreaterThan(0);
+		expect(sale.complete).toBe(sale.dispensedQty >= 5);
+		expect((await dispenser.api.readSale()).complete).toBe(false);
+	});
+
+	it('should reject a refused command with a NakError', async () => {
+		simulator.injectFault('nak');
+		await expect(dispenser.api.pumpStop()).rejects.toThrow(NakError);
+	});
+
+	it('should reject a command the driver does not have', async () => {
+		const api = new DispenserApi({ execute: dispenser.execute.bind(dispenser), processCommand: () => true } as any);
+		await expect(api.switchToRemote()).rejects.toThrow(UnsupportedOperationError);
+	});
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlowEstimator } from '../utils/FlowEstimator';
+import { BatchCounter } from '../utils/BatchCounter';
+
+describe('FlowEstimator', () => {
+	let flow: FlowEstimator;
+
+	beforeEach(() => {
+		flow = new FlowEstimator();
+	});
+
+	it('should report no flow until two samples are in', () => {
+		expect(flow.currentFlowRate()).toBe(0);
+		flow.addSample(0, 1000);
+		expect(flow.currentFlowRate()).toBe(0);
+		expect(flow.averageFlowRate()).toBe(0);
+	});
+
+	it('should give the instantaneous and average rate in L/min', () => {
+		flow.addSample(0, 0);
+		flow.addSample(0, 5000); // pump not started yet
+		flow.addSample(1, 11000);
+		flow.addSample(3, 17000);
+
+		expect(flow.currentFlowRate()).toBe(20);
+		expect(flow.averageFlowRate()).toBe(15);
+	});
+
+	it('should start over when the volume drops', () => {
+		flow.addSample(0, 0);
+		flow.addSample(5, 30000);
+		flow.addSample(0, 40000);
+		flow.addSample(1, 46000);
+
+		expect(flow.currentFlowRate()).toBe(10);
+		expect(flow.averageFlowRate()).toBe(10);
+	});
+});
+
+describe('BatchCounter', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('should keep the count across restarts', () => {
+		const file = path.join(dir, 'batch.json');
+		const counter = new BatchCounter(file);
+		expect(counter.current).toBe(0);
+		expect(counter.increment()).toBe(1);
+		expect(counter.increment()).toBe(2);
+
+		expect(new BatchCounter(file).current).toBe(2);
+	});
+
+	it('should keep a count per pump in a shared file', () => {
+		const file = path.join(dir, 'batch.json');
+		fs.writeFileSync(file, JSON.stringify({ batchNumber: 4 }));
+		const pumpA = new BatchCounter(file, 'A');
+		const pumpB = new BatchCounter(file, 'B');
+		expect(pumpA.increment()).toBe(5);
+		expect(pumpA.increment()).toBe(6);
+		expect(pumpB.increment()).toBe(5);
+
+		expect(new BatchCounter(file, 'A').current).toBe(6);
+		expect(new BatchCounter(file, 'B').current).toBe(5);
+		expect(new BatchCounter(file).current).toBe(4);
+	});
+
+	it('should start at 0 when the file is unreadable', () => {
+		const file = path.join(dir, 'batch.json');
+		fs.writeFileSync(file, 'not json');
+		expect(new BatchCounter(file).current).toBe(0);
+	});
+});
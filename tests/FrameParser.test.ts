@@ -0,0 +1,90 @@
+import { Transform } from 'stream';
+import { TokhiemParser } from '../dispenser/parsers/TokhiemParser';
+import { VeederEmr4Parser } from '../dispenser/parsers/VeederEmr4Parser';
+import { decodeEmr4Frame, decodeEmr4Frames, encodeEmr4Frame } from '../dispenser/parsers/VeederEmr4Codec';
+import { ChecksumError } from '../dispenser/errors';
+import { IsoilVegaTParser } from '../dispenser/parsers/IsoilVegaTParser';
+import { TCS3000Parser } from '../dispenser/parsers/TCS3000Parser';
+import { NeogiParser } from '../dispenser/parsers/NeogiParser';
+import { delay } from '../utils/delay';
+
+const collect = (parser: Transform) => {
+	const frames: string[] = [];
+	parser.on('data', (frame: Buffer) => frames.push(frame.toString('hex')));
+	return frames;
+};
+
+describe('frame parsers', () => {
+	it('should join a Tokhiem frame split across reads', () => {
+		const parser = new TokhiemParser();
+		const frames = collect(parser);
+
+		parser.write(Buffer.from('0141', 'hex'));
+		parser.write(Buffer.from('5331', 'hex'));
+		expect(frames).toEqual([]);
+		parser.write(Buffer.from('7f6d', 'hex'));
+		expect(frames).toEqual(['014153317f6d']);
+	});
+
+	it('should split merged frames and drop bytes ahead of a frame', () => {
+		const parser = new TokhiemParser();
+		const frames = collect(parser);
+
+		parser.write(Buffer.from('ff00014159' + '7f18' + '01414e7f0f', 'hex'));
+		expect(frames).toEqual(['0141597f18', '01414e7f0f']);
+	});
+
+	it('should end a stuffed Veeder frame at the next flag', () => {
+		const parser = new VeederEmr4Parser();
+		const frames = collect(parser);
+
+		// 0x7e and 0x7d inside the data are escaped, the frame never holds a flag
+		const frame = encodeEmr4Frame({ to: 0xff, from: 0x01, command: 0x47, sub: 0x6b, data: Buffer.from([0x7e, 0x7d, 0x10]) });
+		expect(frame.subarray(1, -1).includes(0x7e)).toBe(false);
+		parser.write(Buffer.concat([Buffer.from([0x7e]), frame.subarray(0, 6)]));
+		parser.write(frame.subarray(6));
+		expect(frames).toEqual([frame.toString('hex')]);
+		expect(decodeEmr4Frame(frame).data).toEqual(Buffer.from([0x7e, 0x7d, 0x10]));
+	});
+
+	it('should split joined Veeder replies and reject a bad checksum', () => {
+		const ack = encodeEmr4Frame({ to: 0xff, from: 0x01, command: 0x41, sub: 0x00, data: Buffer.alloc(0) });
+		expect(ack.toString('hex')).toBe('7eff014100bf7e');
+		expect(decodeEmr4Frames(ack.toString('hex') + ack.toString('hex'))).toHaveLength(2);
+		expect(() => decodeEmr4Frame(Buffer.from('7eff014100be7e', 'hex'))).toThrow(ChecksumError);
+	});
+
+	it('should cut TCS3000 frames by their length byte', () => {
+		const parser = new TCS3000Parser();
+		const frames = collect(parser);
+
+		parser.write(Buffer.from('7e00014037', 'hex'));
+		parser.write(Buffer.from('03001105aa7e0001', 'hex'));
+		expect(frames).toEqual(['7e0001403703001105aa']);
+		parser.write(Buffer.from('4037020011bb', 'hex'));
+		expect(frames).toEqual(['7e0001403703001105aa', '7e00014037020011bb']);
+	});
+
+	it('should end Isoil and Neogi frames at their terminator', () => {
+		const isoil = new IsoilVegaTParser();
+		const isoilFrames = collect(isoil);
+		isoil.write(Buffer.from('\x0200141000 3A\r\x02001', 'ascii'));
+		expect(isoilFrames).toEqual([Buffer.from('\x0200141000 3A\r', 'ascii').toString('hex')]);
+
+		const neogi = new NeogiParser();
+		const neogiFrames = collect(neogi);
+		neogi.write(Buffer.from('#OK%#4142.02#', 'ascii'));
+		neogi.write(Buffer.from('14%', 'ascii'));
+		expect(neogiFrames.map((frame) => Buffer.from(frame, 'hex').toString('ascii'))).toEqual(['#OK%', '#4142.02#14%']);
+	});
+
+	it('should hand over an unframed reply after the interval', async () => {
+		const parser = new TokhiemParser({ interval: 20 });
+		const frames = collect(parser);
+
+		parser.write(Buffer.from('59', 'hex'));
+		expect(frames).toEqual([]);
+		await delay(50);
+		expect(frames).toEqual(['59']);
+	});
+});
@@ -3,6 +3,7 @@ import { findDispenserPort } from '../utils/findDispenserPort';
 import { delay } from '../utils/delay';
 import { SerialPort } from 'serialport';
 import { Seneca } from '../dispenser/workflows/GateX';
+import { UnsupportedOperationError } from '../dispenser/errors';
 
 const hardwareId = '0403';
 const attributeId = '6001';
@@ -94,9 +95,8 @@ describe('GateX', () => {
 	// // // // //     expect(status.state).toBe('Stopped');
 	// // // // // });
 
-	it('should return true on pumpStart', async () => {
-		const status = await dispenser.execute(dispenser.pumpStart, dispenser.processCommand);
-		expect(status).toBe(true);
+	it('should refuse pumpStart, the pump is not controlled by GateX', async () => {
+		await expect(dispenser.execute(dispenser.pumpStart, dispenser.processCommand)).rejects.toThrow(UnsupportedOperationError);
 	});
 
 	it('should return true on sendPreset', async () => {
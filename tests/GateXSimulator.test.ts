@@ -0,0 +1,129 @@
+import { GateX } from '../dispenser/GateX';
+import { Seneca } from '../dispenser/workflows/GateX';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { NakError, PortClosedError } from '../dispenser/errors';
+import { SenecaSimulator } from '../simulator/SenecaSimulator';
+import { delay } from '../utils/delay';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rm } from 'fs/promises';
+
+const totalizerFile = join(tmpdir(), `gatex-${process.pid}.json`);
+const TIMED_OUT = { name: 'TransactionTimedOutError', message: 'Timed out', errno: 'ETIMEDOUT' };
+
+describe('GateX against the simulator', () => {
+	let simulator: SenecaSimulator;
+	let dispenser: GateX;
+
+	beforeEach(async () => {
+		const options = {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'GateX',
+			kFactor: 100,
+			totalizerFile,
+			gpio: { backend: 'mock' as const },
+		};
+		simulator = new SenecaSimulator({ flowRate: 600, kFactor: 100, totalizer: 500 });
+		const seneca = new Seneca(options);
+		seneca.client = simulator;
+		dispenser = new GateX(seneca, undefined, options);
+		simulator.gpio = dispenser.gpio;
+		await dispenser.connection;
+		// the pulse counter is first read by the 500 ms poll, createDispenser waits for it as well
+		await delay(600);
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	afterAll(() => rm(totalizerFile, { force: true }));
+
+	it('should read the totalizer from the pulse counter', async () => {
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(500);
+	});
+
+	it('should retry a read that timed out', async () => {
+		jest.spyOn(dispenser.gpio, 'read').mockRejectedValueOnce(TIMED_OUT);
+		expect(await dispenser.execute(dispenser.readStatus)).toBe('false');
+	});
+
+	it('should map modbus failures onto dispenser errors and not retry writes', async () => {
+		const write = jest.spyOn(dispenser.gpio, 'write').mockRejectedValueOnce(TIMED_OUT);
+		await expect(dispenser.execute(dispenser.pumpStop, dispenser.processCommand)).rejects.toMatchObject({
+			name: 'TimeoutError',
+			command: 'pumpStop',
+		});
+		expect(write).toHaveBeenCalledTimes(1);
+
+		jest.spyOn(dispenser.gpio, 'write').mockRejectedValueOnce(
+			Object.assign(new Error('Modbus exception 4: Slave device failure'), { modbusCode: 4 })
+		);
+		await expect(dispenser.execute(dispenser.pumpStop, dispenser.processCommand)).rejects.toBeInstanceOf(NakError);
+	});
+
+	it('should report a dispenser that does not answer as offline', async () => {
+		jest.spyOn(dispenser.gpio, 'read').mockRejectedValue(TIMED_OUT);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Offline);
+	});
+
+	it('should keep polling the counter after a modbus timeout', async () => {
+		simulator.injectFault('timeout');
+		await dispenser.execute(dispenser.authorizeSale, dispenser.processCommand);
+		await delay(1200);
+
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBeGreaterThan(500);
+	});
+});
+
+describe('GateX over a tcp gateway', () => {
+	const options = {
+		hardwareId: '',
+		attributeId: '',
+		dispenserType: 'GateX',
+		kFactor: 100,
+		totalizerFile,
+		transport: { type: 'tcp' as const, host: '127.0.0.1', port: 502 },
+		reconnectIntervalMs: 50,
+		gpio: { backend: 'mock' as const },
+	};
+	let simulator: SenecaSimulator;
+
+	function createGateX() {
+		const seneca = new Seneca(options);
+		seneca.client = simulator;
+		const dispenser = new GateX(seneca, undefined, options);
+		simulator.gpio = dispenser.gpio;
+		return dispenser;
+	}
+
+	beforeEach(() => {
+		simulator = new SenecaSimulator({ kFactor: 100, totalizer: 500 });
+	});
+
+	it('should fail commands at once while the gateway refuses and connect once it answers', async () => {
+		simulator.injectFault('refused');
+		const dispenser = createGateX();
+
+		await expect(dispenser.connection).rejects.toBeInstanceOf(PortClosedError);
+		await expect(dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).rejects.toBeInstanceOf(PortClosedError);
+
+		await delay(900);
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(500);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should reconnect after the gateway dropped the socket', async () => {
+		const dispenser = createGateX();
+		await dispenser.connection;
+
+		simulator.injectFault('refused');
+		simulator.drop();
+		await expect(dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).rejects.toBeInstanceOf(PortClosedError);
+
+		await delay(1000);
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(500);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+});
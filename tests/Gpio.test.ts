@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createGpio } from '../dispenser/gpio/createGpio';
+import { MockGpio } from '../dispenser/gpio/MockGpio';
+import { SysfsGpio } from '../dispenser/gpio/SysfsGpio';
+
+describe('MockGpio', () => {
+	it('should track directions and levels', async () => {
+		const gpio = createGpio({ backend: 'mock' }) as MockGpio;
+		expect(gpio).toBeInstanceOf(MockGpio);
+
+		await gpio.write(22, true);
+		expect(gpio.direction(22)).toBe('out');
+		expect(await gpio.read(22)).toBe(true);
+
+		await gpio.input(26);
+		gpio.setLevel(26, true);
+		expect(gpio.direction(26)).toBe('in');
+		expect(await gpio.read(26)).toBe(true);
+	});
+});
+
+describe('SysfsGpio', () => {
+	let root: string;
+
+	// chip directory as the kernel lays it out, line directories are created by the tests
+	function fakeChip(base: number, chip: string) {
+		fs.mkdirSync(path.join(root, `gpiochip${base}`, 'device', chip), { recursive: true });
+		fs.writeFileSync(path.join(root, `gpiochip${base}`, 'base'), `${base}\n`);
+	}
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'gpio-'));
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	it('should number the lines from the chip base', async () => {
+		fakeChip(512, 'gpiochip0');
+		fs.mkdirSync(path.join(root, 'gpio534'));
+		const gpio = new SysfsGpio({}, root);
+
+		await gpio.write(22, false);
+		expect(fs.readFileSync(path.join(root, 'gpio534', 'direction'), 'utf-8')).toBe('low');
+
+		fs.writeFileSync(path.join(root, 'gpio534', 'value'), '1\n');
+		expect(await gpio.read(22)).toBe(true);
+	});
+
+	it('should export a line before using it and unexport it on close', async () => {
+		const gpio = new SysfsGpio({ sysfsBase: 0 }, root);
+		fs.mkdirSync(path.join(root, 'gpio26'));
+		await gpio.input(26);
+
+		expect(fs.readFileSync(path.join(root, 'export'), 'utf-8')).toBe('26');
+		expect(fs.readFileSync(path.join(root, 'gpio26', 'direction'), 'utf-8')).toBe('in');
+
+		await gpio.close();
+		expect(fs.readFileSync(path.join(root, 'unexport'), 'utf-8')).toBe('26');
+	});
+});
@@ -0,0 +1,208 @@
+import { IsoilVegaTVersion10 } from '../dispenser/IsoilVegaTVersion10';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { ChecksumError, DispenserError, NakError, TimeoutError } from '../dispenser/errors';
+import { delay } from '../utils/delay';
+import { IsoilVegaTSimulator } from '../simulator/IsoilVegaTSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+
+describe('IsoilVegaTVersion10 against the simulator', () => {
+	let simulator: IsoilVegaTSimulator;
+	let dispenser: IsoilVegaTVersion10;
+
+	beforeEach(async () => {
+		simulator = new IsoilVegaTSimulator({ flowRate: 600, totalizer: 2500.25 });
+		const port = createSimulatorPort(simulator);
+		dispenser = new IsoilVegaTVersion10(port, {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'IsoilVegaTVersion10',
+			interByteTimeoutInterval: 10,
+		});
+		// readStatus answers '' while the port is still opening
+		await new Promise((resolve) => port.once('open', resolve));
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should decode the status record', async () => {
+		const res = await dispenser.readStatus();
+
+		expect(dispenser.processTotalizer(res)).toBe(2500.25);
+		expect(dispenser.processBatchNumber(res)).toBe(1);
+		expect(dispenser.isPrinterAvailable(res)).toBe(true);
+		expect(dispenser.normalizeStatus(res).state).toBe(DispenserState.Idle);
+	});
+
+	it('should decode every field into one object', async () => {
+		simulator.preset = 20;
+		simulator.stopReason = '6';
+		simulator.printerStatus = '2';
+
+		expect(dispenser.decodeStatus(await dispenser.readStatus())).toEqual({
+			address: '001',
+			requestOfStartDelivery: false,
+			remoteStop: false,
+			batchState: 'Batch not active',
+			flowing: false,
+			stopReason: 'Stop by meter alarm',
+			printerState: 'No paper',
+			flowRate: 0,
+			averageFlowRate: 600,
+			batchNumber: 1,
+			preset: 20,
+			volume: 0,
+			totalizer: 2500.25,
+			alarms: { powerFailure: false, systemAlarm: false, meterAlarm: true },
+		});
+	});
+
+	it('should read the tail of a longer record from its end', async () => {
+		simulator.stopReason = '6';
+		const res = await dispenser.readStatus();
+		const padded = res.slice(0, 600) + Buffer.from('    ').toString('hex') + res.slice(600);
+
+		const { printerState, ...fields } = dispenser.decodeStatus(res);
+		expect(dispenser.decodeStatus(padded)).toMatchObject(fields);
+	});
+
+	it('should refuse a record that is short, unframed or has unknown codes', async () => {
+		const res = await dispenser.readStatus();
+		expect(() => dispenser.decodeStatus(res.slice(0, 20) + '0d')).toThrow('Isoil status record has 11 bytes, too short for stopOfBatch');
+
+		expect(() => dispenser.processTotalizer(res.slice(0, -4))).toThrow(DispenserError);
+
+		simulator.stopReason = '9';
+		await expect(dispenser.execute(dispenser.readStatus, dispenser.processStatus)).rejects.toThrow('Unreadable stopOfBatch in the status record: "9"');
+	});
+
+	it('should preset, start and dispense', async () => {
+		expect(await dispenser.execute(dispenser.readStatus, dispenser.isReadyForPreset)).toBe(true);
+		expect(await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 20)).toBe(true);
+		expect(await dispenser.execute(dispenser.readPreset, dispenser.isPresetVerified, 20)).toBe(true);
+		expect(await dispenser.execute(dispenser.authorizeSale, dispenser.processCommand)).toBe(true);
+
+		await delay(200);
+		const res = await dispenser.readSale();
+		expect(dispenser.normalizeStatus(res).state).toBe(DispenserState.Dispensing);
+		expect(dispenser.processReadSale(res)).toBeGreaterThan(0);
+		expect(dispenser.processFlowRate(res)).toBe(600);
+		expect(dispenser.isReadyForPreset(res)).toBe(false);
+		expect(dispenser.isSaleCloseable(res)).toBe(false);
+
+		expect(await dispenser.execute(dispenser.suspendSale, dispenser.processCommand)).toBe(true);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Suspended);
+	});
+
+	it('should read the totalizer through execute', async () => {
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(2500.25);
+		expect(await dispenser.api.totalizer()).toMatchObject({ totalizer: 2500.25, batchNumber: 2 });
+	});
+
+	it('should stop the delivery in two confirmed steps', async () => {
+		await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 20);
+		await dispenser.execute(dispenser.authorizeSale, dispenser.processCommand);
+		await delay(100);
+
+		const frames: Buffer[] = [];
+		simulator.on('frame', (frame) => frames.push(frame));
+		expect(await dispenser.execute(dispenser.pumpStop, dispenser.processCommand)).toBe(true);
+		expect(frames.map((frame) => frame.toString('ascii', 5, 7))).toEqual(['45', '46']);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Completed);
+		expect(await dispenser.execute(dispenser.readStatus, dispenser.isSaleCloseable)).toBe(true);
+	});
+
+	it('should not send the second step of a stop that timed out', async () => {
+		await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 20);
+		await dispenser.execute(dispenser.authorizeSale, dispenser.processCommand);
+		dispenser.options.commandTimeouts = { pumpStop: 150 };
+
+		const frames: Buffer[] = [];
+		simulator.on('frame', (frame) => frames.push(frame));
+		const stop = dispenser.execute(dispenser.pumpStop, dispenser.processCommand);
+		const status = dispenser.execute(dispenser.readStatus);
+		await expect(stop).rejects.toThrow(TimeoutError);
+		await status;
+		await delay(300);
+		expect(frames.map((frame) => frame.toString('ascii', 5, 7))).toEqual(['45', '30']);
+	});
+
+	it('should not start again when nothing is left to resume', async () => {
+		await expect(dispenser.execute(dispenser.resumeSale, dispenser.processCommand)).rejects.toThrow(NakError);
+	});
+
+	it('should reject a record with a wrong checksum', async () => {
+		simulator.injectFault('badChecksum');
+		await expect(dispenser.readStatus()).rejects.toThrow(ChecksumError);
+	});
+
+	it('should refuse a start without preset', async () => {
+		await expect(dispenser.execute(dispenser.authorizeSale, dispenser.processCommand)).rejects.toThrow('Command failed');
+	});
+});
+
+describe('Isoil Vega-T units on a shared bus', () => {
+	let unit1: IsoilVegaTSimulator;
+	let unit7: IsoilVegaTSimulator;
+
+	const options = { hardwareId: '', attributeId: '', dispenserType: 'IsoilVegaTVersion10', interByteTimeoutInterval: 10 };
+
+	beforeEach(() => {
+		unit1 = new IsoilVegaTSimulator({ totalizer: 1000 });
+		unit7 = new IsoilVegaTSimulator({ totalizer: 7000, address: '007' });
+	});
+
+	it('should find the units answering on the line', async () => {
+		const port = createSimulatorPort([unit1, unit7]);
+		const dispenser = new IsoilVegaTVersion10(port, options);
+		await new Promise((resolve) => port.once('open', resolve));
+
+		expect(await dispenser.execute(dispenser.scanBus, undefined, [[1, 2, 7], 100])).toEqual([1, 7]);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should not take a late reply for the next address', async () => {
+		unit1 = new IsoilVegaTSimulator({ totalizer: 1000, responseDelayMs: 120 });
+		unit7 = new IsoilVegaTSimulator({ totalizer: 7000, address: '007', responseDelayMs: 60 });
+		const port = createSimulatorPort([unit1, unit7]);
+		const dispenser = new IsoilVegaTVersion10(port, options);
+		await new Promise((resolve) => port.once('open', resolve));
+
+		expect(await dispenser.execute(dispenser.scanBus, undefined, [[1, 7], 100])).toEqual([7]);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should skip a unit with a damaged reply and go on scanning', async () => {
+		unit1.injectFault('badChecksum');
+		const port = createSimulatorPort([unit1, unit7]);
+		const dispenser = new IsoilVegaTVersion10(port, options);
+		await new Promise((resolve) => port.once('open', resolve));
+
+		expect(await dispenser.execute(dispenser.scanBus, undefined, [[1, 2, 7], 100])).toEqual([7]);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should frame each command for its unit', async () => {
+		const bus = IsoilVegaTVersion10.createBus(createSimulatorPort([unit1, unit7]));
+		const dispenser1 = IsoilVegaTVersion10.onBus(bus, options);
+		const dispenser7 = IsoilVegaTVersion10.onBus(bus, { ...options, pumpAddress: '7' });
+
+		const [totalizer1, totalizer7] = await Promise.all([
+			dispenser1.execute(dispenser1.totalizer, dispenser1.processTotalizer),
+			dispenser7.execute(dispenser7.totalizer, dispenser7.processTotalizer),
+		]);
+		expect(totalizer1).toBe(1000);
+		expect(totalizer7).toBe(7000);
+
+		await dispenser7.execute(dispenser7.sendPreset, dispenser7.processCommand, 20);
+		expect(unit7.preset).toBe(20);
+		expect(unit1.preset).toBe(0);
+
+		for (const dispenser of [dispenser1, dispenser7]) await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should refuse an address outside 1-999', () => {
+		expect(() => new IsoilVegaTVersion10(createSimulatorPort(unit1), { ...options, pumpAddress: '1000' })).toThrow('Invalid Isoil address');
+	});
+});
@@ -0,0 +1,68 @@
+import { Neogi } from '../dispenser/Neogi';
+import { ChecksumError } from '../dispenser/errors';
+import { delay } from '../utils/delay';
+import { NeogiSimulator } from '../simulator/NeogiSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+import { MockGpio } from '../dispenser/gpio/MockGpio';
+import { NozzleState } from '../dispenser/interface/DispenserState';
+
+describe('Neogi against the simulator', () => {
+	let simulator: NeogiSimulator;
+	let dispenser: Neogi;
+
+	beforeEach(() => {
+		simulator = new NeogiSimulator({ flowRate: 600, totalizer: 4142.02 });
+		dispenser = new Neogi(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Neogi',
+			interByteTimeoutInterval: 10,
+			gpio: { backend: 'mock', pins: { nozzle: 5 } },
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should read the totalizer', async () => {
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(4142.02);
+	});
+
+	it('should dispense the preset and report the transaction', async () => {
+		expect(await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 2.5)).toBe(true);
+		expect(await dispenser.execute(dispenser.readStatus, dispenser.isDispensing)).toBe(true);
+
+		const progress = await dispenser.execute(dispenser.readSale, dispenser.isOrderComplete, 2.5);
+		expect(progress.status).toBe(false);
+
+		await delay(300);
+		const completed = await dispenser.execute(dispenser.readSale, dispenser.isOrderComplete, 2.5);
+		expect(completed).toMatchObject({ status: true, dispensedQty: 2.5 });
+		expect(await dispenser.execute(dispenser.readStatus, dispenser.isSaleCloseable)).toBe(true);
+	});
+
+	it('should read the nozzle switch from its GPIO pin', async () => {
+		const gpio = dispenser.gpio as MockGpio;
+		expect((await dispenser.readNormalizedStatus()).nozzle).toBe(NozzleState.OffHook);
+		expect(gpio.direction(5)).toBe('in');
+
+		gpio.setLevel(5, true);
+		expect((await dispenser.readNormalizedStatus()).nozzle).toBe(NozzleState.OnHook);
+	});
+
+	it('should read again after a corrupted checksum', async () => {
+		simulator.injectFault('badChecksum');
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(4142.02);
+	});
+
+	it('should give up after the checksum retries', async () => {
+		simulator.injectFault('badChecksum', 3);
+		await expect(dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).rejects.toThrow(ChecksumError);
+	});
+
+	it('should reject an invalid reply', async () => {
+		simulator.injectFault('nak');
+		await expect(dispenser.execute(dispenser.cancelPreset, dispenser.processCommand)).rejects.toThrow('Command failed: #INVALID%');
+	});
+});
@@ -0,0 +1,63 @@
+import { SerialPort, SerialPortOpenOptions } from 'serialport';
+import { AutoDetectTypes } from '@serialport/bindings-cpp';
+import { MockBinding } from '@serialport/binding-mock';
+import { TCS3000 } from '../dispenser/TCS3000';
+import { DeliverySession } from '../dispenser/workflows/DeliverySession';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { TCS3000Simulator } from '../simulator/TCS3000Simulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+
+describe('TCS3000 against the simulator', () => {
+	let simulator: TCS3000Simulator;
+	let dispenser: TCS3000;
+
+	beforeEach(() => {
+		MockBinding.createPort('/dev/ttyPRINTER', { echo: false, record: false });
+		const printer = new SerialPort({ path: '/dev/ttyPRINTER', baudRate: 9600, binding: MockBinding } as SerialPortOpenOptions<AutoDetectTypes>);
+
+		simulator = new TCS3000Simulator({ flowRate: 600, totalizer: 500 });
+		dispenser = new TCS3000(createSimulatorPort(simulator), printer, {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'TCS3000',
+			interByteTimeoutInterval: 10,
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.printer.close(() => dispenser.disconnect(done));
+		MockBinding.reset();
+	});
+
+	it('should run a full delivery', async () => {
+		const session = new DeliverySession(dispenser, { quantity: 5, pollIntervalMs: 20 });
+		const summary = await session.run();
+
+		expect(simulator.productId).toBe(1015);
+		expect(summary.startTotalizer?.totalizer).toBe(500);
+		// TCS3000 reports the order complete one litre before the preset
+		expect(summary.dispensedQty).toBeGreaterThanOrEqual(4);
+		expect(summary.dispensedQty).toBeLessThanOrEqual(5);
+		expect(simulator.state).toBe(DispenserState.Idle);
+	});
+
+	it('should pause and resume', async () => {
+		await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 100);
+		await dispenser.execute(dispenser.authorizeSale, dispenser.processCommand);
+
+		expect(await dispenser.execute(dispenser.suspendSale, dispenser.processCommand)).toBe(true);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Suspended);
+		expect(await dispenser.execute(dispenser.resumeSale, dispenser.processCommand)).toBe(true);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Dispensing);
+	});
+
+	it('should read again after a damaged CRC', async () => {
+		simulator.injectFault('badChecksum');
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(500);
+	});
+
+	it('should return false on a NAK', async () => {
+		simulator.injectFault('nak');
+		expect(await dispenser.execute(dispenser.cancelPreset, dispenser.processCommand)).toBe(false);
+	});
+});
@@ -0,0 +1,117 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { TcpTransport } from '../dispenser/transport/TcpTransport';
+import { TokhiemSimulator } from '../simulator/TokhiemSimulator';
+import { Tokhiem } from '../dispenser/Tokhiem';
+import { PortClosedError } from '../dispenser/errors';
+
+describe('TcpTransport', () => {
+	let server: Server;
+	let sockets: Socket[];
+	let port: number;
+
+	beforeEach(async () => {
+		sockets = [];
+		server = createServer((socket) => {
+			sockets.push(socket);
+			socket.on('data', (data) => socket.write(data));
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterEach((done) => {
+		sockets.forEach((socket) => socket.destroy());
+		server.close(() => done());
+	});
+
+	it('should carry bytes both ways', async () => {
+		const transport = new TcpTransport({ type: 'tcp', host: '127.0.0.1', port });
+		await new Promise((resolve) => transport.once('open', resolve));
+		expect(transport.isOpen).toBe(true);
+
+		const echo = new Promise<Buffer>((resolve) => transport.once('data', resolve));
+		transport.write(Buffer.from([0x01, 0x41, 0x53]));
+		expect(await echo).toEqual(Buffer.from([0x01, 0x41, 0x53]));
+
+		await new Promise((resolve) => transport.close(resolve));
+		expect(transport.isOpen).toBe(false);
+	});
+
+	it('should reconnect when the socket drops', async () => {
+		const transport = new TcpTransport({ type: 'tcp', host: '127.0.0.1', port, reconnectIntervalMs: 20 });
+		await new Promise((resolve) => transport.once('open', resolve));
+
+		const disconnected = new Promise((resolve) => transport.once('disconnect', resolve));
+		const reconnected = new Promise((resolve) => transport.once('reconnect', resolve));
+		sockets[0].destroy();
+		await disconnected;
+		expect(transport.isOpen).toBe(false);
+		await reconnected;
+		expect(transport.isOpen).toBe(true);
+
+		const echo = new Promise<Buffer>((resolve) => transport.once('data', resolve));
+		transport.write(Buffer.from('ping'));
+		expect((await echo).toString()).toBe('ping');
+
+		await new Promise((resolve) => transport.close(resolve));
+	});
+
+	it('should fail commands at once while the gateway is unreachable', async () => {
+		const closedPort = port;
+		await new Promise((resolve) => server.close(resolve));
+		const dispenser = new Tokhiem(new TcpTransport({ type: 'tcp', host: '127.0.0.1', port: closedPort, reconnectIntervalMs: 20 }), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Tokhiem',
+			interByteTimeoutInterval: 10,
+		});
+
+		const started = Date.now();
+		await expect(dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).rejects.toBeInstanceOf(PortClosedError);
+		expect(Date.now() - started).toBeLessThan(1000);
+
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+		await new Promise<void>((resolve) => server.listen(closedPort, '127.0.0.1', resolve));
+	});
+
+	it('should fail the command in flight when the gateway drops', async () => {
+		const dispenser = new Tokhiem(new TcpTransport({ type: 'tcp', host: '127.0.0.1', port, reconnectIntervalMs: 20 }), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Tokhiem',
+			interByteTimeoutInterval: 10,
+		});
+		server.removeAllListeners('connection');
+		server.on('connection', (socket) => {
+			sockets.push(socket);
+			socket.on('data', () => socket.destroy());
+		});
+		await new Promise((resolve) => dispenser.connection.once('open', resolve));
+
+		const started = Date.now();
+		await expect(dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).rejects.toBeInstanceOf(PortClosedError);
+		expect(Date.now() - started).toBeLessThan(1000);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should run a driver over the gateway', async () => {
+		const simulator = new TokhiemSimulator({ totalizer: 1000 });
+		server.removeAllListeners('connection');
+		server.on('connection', (socket) => {
+			sockets.push(socket);
+			socket.on('data', (data) => simulator.receive(data));
+			simulator.connect((data) => socket.write(data));
+		});
+
+		const dispenser = new Tokhiem(new TcpTransport({ type: 'tcp', host: '127.0.0.1', port }), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Tokhiem',
+			interByteTimeoutInterval: 10,
+		});
+		await new Promise((resolve) => dispenser.connection.once('open', resolve));
+
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(1000);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+});
@@ -0,0 +1,191 @@
+import { Tokhiem } from '../dispenser/Tokhiem';
+import { DeliverySession } from '../dispenser/workflows/DeliverySession';
+import { DispenserState, NozzleState } from '../dispenser/interface/DispenserState';
+import { ChecksumError, NakError, UnsupportedOperationError } from '../dispenser/errors';
+import { TokhiemSimulator } from '../simulator/TokhiemSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+import { DispenserBus } from '../dispenser/transport/DispenserBus';
+import { delay } from '../utils/delay';
+
+describe('Tokhiem against the simulator', () => {
+	let simulator: TokhiemSimulator;
+	let dispenser: Tokhiem;
+
+	beforeEach(() => {
+		simulator = new TokhiemSimulator({ flowRate: 600, totalizer: 1000 });
+		dispenser = new Tokhiem(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'Tokhiem',
+			interByteTimeoutInterval: 10,
+			commandTimeouts: { readStatus: 200 },
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should run a full delivery', async () => {
+		const session = new DeliverySession(dispenser, { quantity: 5, pollIntervalMs: 20 });
+		const summary = await session.run();
+
+		expect(summary.startTotalizer?.totalizer).toBe(1000);
+		expect(summary.endTotalizer?.totalizer).toBe(1005);
+		expect(summary.dispensedQty).toBe(5);
+		expect(simulator.state).toBe(DispenserState.Idle);
+	});
+
+	it('should estimate the flow and count batches', async () => {
+		const progress: any[] = [];
+		const session = new DeliverySession(dispenser, { quantity: 5, pollIntervalMs: 20 });
+		session.on('progress', (reading) => progress.push(reading));
+		const summary = await session.run();
+
+		const flowing = progress.filter((reading) => reading.dispensedQty > 0 && reading.currentFlowRate > 0);
+		expect(flowing.length).toBeGreaterThan(0);
+		expect(progress.every((reading) => reading.batchNumber === 1)).toBe(true);
+		expect(summary.endTotalizer?.batchNumber).toBe(1);
+
+		const next = await new DeliverySession(dispenser, { quantity: 2, pollIntervalMs: 20 }).run();
+		expect(next.startTotalizer?.batchNumber).toBe(2);
+	});
+
+	it('should estimate the flow and count batches from plain sale reads', async () => {
+		simulator.volume = 1;
+		await dispenser.execute(dispenser.readSale, dispenser.processReadSale);
+		await delay(100);
+		simulator.volume = 2;
+		expect(await dispenser.execute(dispenser.readSale, dispenser.processReadSale)).toMatchObject({ volume: 2 });
+		expect(dispenser.processFlowRate('')).toBeGreaterThan(0);
+
+		expect(await dispenser.api.clearSale()).toEqual({ command: 'clearSale', acknowledged: true });
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizerWithBatch)).toMatchObject({ batchNumber: 2 });
+	});
+
+	it('should preset fractional litres and amounts', async () => {
+		expect(await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 25.5)).toBe(true);
+		expect(simulator.preset).toBe(25.5);
+		expect(await dispenser.execute(dispenser.readPreset, dispenser.processReadPreset)).toBe(25.5);
+
+		simulator.unitPrice = 2.5;
+		expect(await dispenser.api.setAmountPreset(200)).toEqual({ command: 'setAmountPreset', acknowledged: true });
+		expect(simulator.preset).toBe(80);
+	});
+
+	it('should refuse a preset it cannot encode', async () => {
+		const frames = jest.fn();
+		simulator.on('frame', frames);
+
+		await expect(dispenser.execute(dispenser.setPreset, dispenser.processCommand, 10000)).rejects.toThrow('out of range');
+		await expect(dispenser.execute(dispenser.setPreset, dispenser.processCommand, 0)).rejects.toThrow('out of range');
+		expect(frames).not.toHaveBeenCalled();
+	});
+
+	it('should set the unit price and charge the sale at it', async () => {
+		expect(await dispenser.api.setUnitPrice(2.35)).toEqual({ command: 'setUnitPrice', acknowledged: true });
+		expect(simulator.unitPrice).toBe(2.35);
+		expect(await dispenser.api.readUnitPrice()).toBe(2.35);
+
+		simulator.volume = 4;
+		expect(await dispenser.api.readSale()).toMatchObject({ dispensedQty: 4, unitPrice: 2.35, amount: 9.4 });
+		await expect(dispenser.api.setUnitPrice(100)).rejects.toThrow('out of range');
+	});
+
+	it('should report nozzle events in the status', async () => {
+		simulator.liftNozzle();
+		const status = await dispenser.readNormalizedStatus();
+
+		expect(status.state).toBe(DispenserState.Calling);
+		expect(status.nozzle).toBe(NozzleState.OffHook);
+	});
+
+	it('should refuse printing a receipt it has no printer for', async () => {
+		expect(dispenser.getCapabilities().onboardPrinter).toBe(false);
+		await expect(dispenser.execute(dispenser.printReceipt, undefined, {})).rejects.toThrow(UnsupportedOperationError);
+	});
+
+	it('should reject a NAK', async () => {
+		simulator.injectFault('nak');
+		const error = await dispenser.execute(dispenser.pumpStop, dispenser.processCommand).catch((error) => error);
+
+		expect(error).toBeInstanceOf(NakError);
+		expect(error.command).toBe('pumpStop');
+		expect(error.frame).toBeTruthy();
+	});
+
+	it('should read the totalizer again when the BCC is wrong', async () => {
+		const frames = jest.fn();
+		simulator.on('frame', frames);
+		simulator.injectFault('badChecksum');
+
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(1000);
+		expect(frames).toHaveBeenCalledTimes(2);
+	});
+
+	it('should give up on a damaged read once the retry policy is spent', async () => {
+		dispenser.options.retryPolicy = { read: { retries: 1, backoffMs: 0 } };
+		simulator.injectFault('badChecksum', 2);
+
+		const error = await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer).catch((error) => error);
+		expect(error).toBeInstanceOf(ChecksumError);
+		expect(error.command).toBe('totalizer');
+	});
+
+	it('should not resend a command whose reply is damaged', async () => {
+		const frames = jest.fn();
+		simulator.on('frame', frames);
+		simulator.injectFault('badChecksum');
+
+		await expect(dispenser.execute(dispenser.pumpStop, dispenser.processCommand)).rejects.toThrow(ChecksumError);
+		expect(frames).toHaveBeenCalledTimes(1);
+	});
+
+	it('should report a dispenser that does not answer as offline', async () => {
+		simulator.injectFault('timeout');
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Offline);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Idle);
+	});
+});
+
+describe('Tokhiem pumps on a shared bus', () => {
+	let pumpA: TokhiemSimulator;
+	let pumpB: TokhiemSimulator;
+	let bus: DispenserBus;
+	let dispenserA: Tokhiem;
+	let dispenserB: Tokhiem;
+
+	const options = { hardwareId: '', attributeId: '', dispenserType: 'Tokhiem', interByteTimeoutInterval: 10 };
+
+	beforeEach(() => {
+		pumpA = new TokhiemSimulator({ totalizer: 1000 });
+		pumpB = new TokhiemSimulator({ totalizer: 2000, address: 0x42 });
+		bus = Tokhiem.createBus(createSimulatorPort([pumpA, pumpB]));
+		dispenserA = Tokhiem.onBus(bus, { ...options, pumpAddress: 'A' });
+		dispenserB = Tokhiem.onBus(bus, { ...options, pumpAddress: '2' });
+	});
+
+	afterEach(async () => {
+		for (const dispenser of [dispenserA, dispenserB].filter(({ connection }) => connection.isOpen)) {
+			await new Promise((resolve) => dispenser.disconnect(resolve));
+		}
+	});
+
+	it('should address each pump and interleave their commands', async () => {
+		const [totalizerA, totalizerB] = await Promise.all([
+			dispenserA.execute(dispenserA.totalizer, dispenserA.processTotalizer),
+			dispenserB.execute(dispenserB.totalizer, dispenserB.processTotalizer),
+		]);
+		expect(totalizerA).toBe(1000);
+		expect(totalizerB).toBe(2000);
+
+		expect(await dispenserB.execute(dispenserB.setPreset, dispenserB.processCommand, 7)).toBe(true);
+		expect(pumpB.preset).toBe(7);
+		expect(pumpA.preset).toBe(0);
+	});
+
+	it('should keep the other pump running when one disconnects', async () => {
+		await new Promise((resolve) => dispenserA.disconnect(resolve));
+		expect(await dispenserB.execute(dispenserB.totalizer, dispenserB.processTotalizer)).toBe(2000);
+	});
+});
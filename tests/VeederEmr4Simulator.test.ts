@@ -0,0 +1,216 @@
+import { VeederEmr4 } from '../dispenser/VeederEmr4';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { DispenserError, NakError, UnsupportedOperationError } from '../dispenser/errors';
+import { delay } from '../utils/delay';
+import { VeederEmr4Simulator } from '../simulator/VeederEmr4Simulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+import { MockGpio } from '../dispenser/gpio/MockGpio';
+
+describe('VeederEmr4 against the simulator', () => {
+	let simulator: VeederEmr4Simulator;
+	let dispenser: VeederEmr4;
+
+	beforeEach(() => {
+		simulator = new VeederEmr4Simulator({ flowRate: 600, totalizer: 1234.5 });
+		dispenser = new VeederEmr4(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'VeederEmr4',
+			interByteTimeoutInterval: 10,
+			gpio: { backend: 'mock' },
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should read the totalizer', async () => {
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(1234.5);
+	});
+
+	it('should preset, authorize and dispense', async () => {
+		expect(await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 10)).toBe(true);
+		expect(await dispenser.execute(dispenser.readPreset, dispenser.isPresetVerified, 10)).toBe(true);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Calling);
+
+		expect(await dispenser.execute(dispenser.authorizeSale, dispenser.processCommand)).toBe(true);
+		expect(await dispenser.execute(dispenser.switchToRemote, dispenser.processCommand)).toBe(true);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Dispensing);
+
+		await delay(200);
+		const sale = await dispenser.execute(dispenser.readSale, dispenser.isOrderComplete, 10);
+		expect(sale.dispensedQty).toBeGreaterThan(0);
+		expect(sale.dispensedQty).toBeLessThanOrEqual(10);
+		expect(await dispenser.execute(dispenser.readStatus, dispenser.isSaleCloseable)).toBe(false);
+
+		await delay(1000);
+		expect(await dispenser.execute(dispenser.readStatus, dispenser.isSaleCloseable)).toBe(true);
+	});
+
+	it('should switch the pump relay over GPIO', async () => {
+		const gpio = dispenser.gpio as MockGpio;
+		expect(await dispenser.api.pumpStart()).toEqual({ command: 'pumpStart', acknowledged: true });
+		expect(gpio.direction(22)).toBe('out');
+		expect(await gpio.read(22)).toBe(false);
+
+		expect(await dispenser.api.pumpStop()).toEqual({ command: 'pumpStop', acknowledged: true });
+		expect(await gpio.read(22)).toBe(true);
+	});
+
+	it('should fail pumpStop when the relay cannot be switched', async () => {
+		jest.spyOn(dispenser.gpio, 'write').mockRejectedValueOnce(new DispenserError('GPIO 22 could not be requested: busy'));
+		await expect(dispenser.execute(dispenser.pumpStop, dispenser.processCommand)).rejects.toThrow('GPIO 22 could not be requested: busy');
+
+		jest.spyOn(dispenser.gpio, 'read').mockResolvedValueOnce(false);
+		await expect(dispenser.api.pumpStop()).rejects.toThrow('pump relay did not switch off');
+	});
+
+	it('should compute the amount from the unit price', async () => {
+		expect(await dispenser.api.setUnitPrice(2.35)).toEqual({ command: 'setUnitPrice', acknowledged: true });
+		expect(simulator.unitPrice).toBe(2.35);
+
+		simulator.volume = 4;
+		expect(await dispenser.api.readSale()).toMatchObject({ dispensedQty: 4, unitPrice: 2.35, amount: 9.4 });
+
+		simulator.unitPrice = 1.5;
+		expect(await dispenser.api.readUnitPrice()).toBe(1.5);
+		expect(await dispenser.api.readSale()).toMatchObject({ unitPrice: 1.5, amount: 6 });
+	});
+
+	it('should estimate the flow and count batches from plain sale reads', async () => {
+		simulator.volume = 1;
+		await dispenser.api.readSale();
+		await delay(100);
+		simulator.volume = 2;
+		expect(await dispenser.execute(dispenser.readSale, dispenser.processReadSale)).toMatchObject({ volume: 2 });
+		expect((await dispenser.api.readSale()).averageFlowRate).toBeGreaterThan(0);
+
+		expect(await dispenser.api.clearSale()).toEqual({ command: 'clearSale', acknowledged: true });
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizerWithBatch)).toMatchObject({ batchNumber: 2 });
+	});
+
+	it('should escape flag bytes in floats', async () => {
+		const frames: Buffer[] = [];
+		simulator.on('frame', (frame) => frames.push(frame));
+
+		// 63.5 is 0x427e0000, its little endian bytes hold a flag
+		expect(await dispenser.execute(dispenser.setPreset, dispenser.processCommand, 63.5)).toBe(true);
+		expect(frames[0].subarray(1, -1).includes(0x7e)).toBe(false);
+		expect(simulator.preset).toBe(63.5);
+		expect(await dispenser.execute(dispenser.readPreset, dispenser.processReadPreset)).toBe(63.5);
+
+		simulator.volume = 480; // 0x407e000000000000
+		expect((await dispenser.api.readSale()).dispensedQty).toBe(480);
+	});
+
+	it('should read again after a damaged checksum', async () => {
+		simulator.injectFault('badChecksum');
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(1234.5);
+	});
+
+	it('should reject a NAK', async () => {
+		simulator.injectFault('nak');
+		await expect(dispenser.execute(dispenser.switchToLocal, dispenser.processCommand)).rejects.toThrow('Command failed');
+	});
+
+	it('should refuse net presets without temperature compensation', async () => {
+		expect(dispenser.getCapabilities().temperatureCompensation).toBe(false);
+		await expect(dispenser.api.setNetPreset(10)).rejects.toThrow(UnsupportedOperationError);
+		expect((await dispenser.api.readSale()).netVolume).toBeUndefined();
+	});
+
+	it('should drop a ticket it cannot print', async () => {
+		simulator.ticketPending = true;
+		await expect(dispenser.api.printTicket()).rejects.toThrow(UnsupportedOperationError);
+		expect(dispenser.isPrinterAvailable(await dispenser.execute(dispenser.readPrinterStatus))).toBe(false);
+
+		expect(await dispenser.execute(dispenser.clearTicket, dispenser.processCommand)).toBe(true);
+		expect(simulator.ticketPending).toBe(false);
+	});
+
+	it('should refuse nozzle checks it cannot sense', async () => {
+		expect(dispenser.getCapabilities()).toMatchObject({ presetByVolume: true, nozzleSensing: false, externalPump: false });
+		expect(dispenser.hasExternalPump()).toBe(false);
+		await expect(dispenser.execute(dispenser.readStatus, dispenser.isNozzleOnHook)).rejects.toThrow(UnsupportedOperationError);
+	});
+});
+
+describe('VeederEmr4 with temperature compensation', () => {
+	let simulator: VeederEmr4Simulator;
+	let dispenser: VeederEmr4;
+
+	beforeEach(() => {
+		simulator = new VeederEmr4Simulator({ flowRate: 6000, totalizer: 1000, atc: true, temperature: 35 });
+		dispenser = new VeederEmr4(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'VeederEmr4',
+			interByteTimeoutInterval: 10,
+			atc: true,
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should read the temperature and net totalizer', async () => {
+		expect(dispenser.getCapabilities().temperatureCompensation).toBe(true);
+		expect(await dispenser.api.readTemperature()).toBe(35);
+		expect(await dispenser.api.netTotalizer()).toBe(983.2);
+	});
+
+	it('should stop a net preset at the compensated volume', async () => {
+		await dispenser.api.setUnitPrice(2);
+		expect(await dispenser.api.setNetPreset(20)).toEqual({ command: 'setNetPreset', acknowledged: true });
+		expect(await dispenser.api.readPreset()).toBe(20);
+		expect((await dispenser.readNormalizedStatus()).raw['Net Preset Is Active']).toBe(true);
+
+		await dispenser.api.authorizeSale();
+		await dispenser.api.switchToRemote();
+		await delay(400);
+
+		const sale = await dispenser.api.readSale(20);
+		expect(sale).toMatchObject({ complete: true, dispensedQty: 20, netVolume: 20, grossVolume: 20.34, temperature: 35, amount: 40 });
+	});
+});
+
+describe('VeederEmr4 with a ticket printer', () => {
+	let simulator: VeederEmr4Simulator;
+	let dispenser: VeederEmr4;
+
+	beforeEach(() => {
+		simulator = new VeederEmr4Simulator({ flowRate: 6000, totalizer: 1000, ticketPrinter: true, printDurationMs: 50 });
+		dispenser = new VeederEmr4(createSimulatorPort(simulator), {
+			hardwareId: '',
+			attributeId: '',
+			dispenserType: 'VeederEmr4',
+			interByteTimeoutInterval: 10,
+			ticketPrinter: true,
+		});
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should hold the sale until its ticket is printed', async () => {
+		expect(dispenser.getCapabilities().onboardPrinter).toBe(true);
+		await dispenser.api.setPreset(5);
+		await dispenser.api.authorizeSale();
+		await dispenser.api.switchToRemote();
+		await delay(200);
+
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.TicketPending);
+		expect(await dispenser.execute(dispenser.readPrinterStatus, dispenser.isPrinterAvailable)).toBe(true);
+		await expect(dispenser.api.clearSale()).rejects.toThrow(NakError);
+
+		await dispenser.api.printTicket();
+		expect((await dispenser.api.readPrinterStatus()).printing).toBe(true);
+		while ((await dispenser.api.readPrinterStatus()).printing) await delay(10);
+
+		expect(simulator.ticketPending).toBe(false);
+		expect(await dispenser.api.clearSale()).toEqual({ command: 'clearSale', acknowledged: true });
+	});
+});
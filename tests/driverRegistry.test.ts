@@ -0,0 +1,34 @@
+import { createDispenser, listDrivers, registerDispenserDriver } from '../main';
+import { Tokhiem } from '../dispenser/Tokhiem';
+import { TokhiemSimulator } from '../simulator/TokhiemSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+
+describe('driver registry', () => {
+	it('should list the built-in drivers', () => {
+		const names = listDrivers('dispenser').map((driver) => driver.name);
+		expect(names).toEqual(expect.arrayContaining(['Tokhiem', 'VeederEmr4', 'IsoilVegaTVersion10', 'TCS3000', 'GateX', 'Neogi']));
+		expect(listDrivers('rfid').map((driver) => driver.name)).toEqual(['PETROPOINTHECTRONICS']);
+		expect(listDrivers().find((driver) => driver.name === 'GateX')?.capabilities.requiresPrinter).toBe(true);
+		for (const name of ['VeederEmr4', 'Neogi']) {
+			expect(listDrivers().find((driver) => driver.name === name)?.capabilities.validateOptions).toBeInstanceOf(Function);
+		}
+	});
+
+	it('should create a registered third party driver', async () => {
+		const simulator = new TokhiemSimulator({ totalizer: 42 });
+		registerDispenserDriver('TokhiemSimulated', (options) => new Tokhiem(createSimulatorPort(simulator), options));
+
+		const dispenser = await createDispenser({
+			dispenserType: 'TokhiemSimulated',
+			hardwareId: '0403',
+			attributeId: '6001',
+			interByteTimeoutInterval: 10,
+		});
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(42);
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+	});
+
+	it('should refuse a duplicate registration', () => {
+		expect(() => registerDispenserDriver('Tokhiem', () => ({}) as any)).toThrow('already registered');
+	});
+});
@@ -0,0 +1,67 @@
+import { Tokhiem } from '../dispenser/Tokhiem';
+import { DispenserState } from '../dispenser/interface/DispenserState';
+import { PortClosedError } from '../dispenser/errors';
+import { TokhiemSimulator } from '../simulator/TokhiemSimulator';
+import { createSimulatorPort } from '../simulator/createSimulatorPort';
+
+describe('BaseDispenser reconnect', () => {
+	let simulator: TokhiemSimulator;
+	let dispenser: Tokhiem;
+	let openConnection: jest.SpyInstance;
+
+	beforeEach(async () => {
+		simulator = new TokhiemSimulator({ totalizer: 1000 });
+		const port = createSimulatorPort(simulator);
+		dispenser = new Tokhiem(port, {
+			hardwareId: '0403',
+			attributeId: '6001',
+			dispenserType: 'Tokhiem',
+			interByteTimeoutInterval: 10,
+			reconnectIntervalMs: 20,
+		});
+		// stands in for findDispenserPort finding the re-enumerated adapter
+		openConnection = jest.spyOn(dispenser as any, 'openConnection').mockImplementation(async () => createSimulatorPort(simulator));
+		await new Promise((resolve) => port.once('open', resolve));
+	});
+
+	afterEach((done) => {
+		dispenser.disconnect(done);
+	});
+
+	it('should fail the command in flight and reopen the port', async () => {
+		simulator.injectFault('timeout');
+		const received = new Promise((resolve) => simulator.once('frame', resolve));
+		const inFlight = dispenser.execute(dispenser.totalizer, dispenser.processTotalizer);
+		const disconnected = new Promise((resolve) => dispenser.once('disconnected', resolve));
+		const reconnected = new Promise((resolve) => dispenser.once('reconnected', resolve));
+
+		await received;
+		const started = Date.now();
+		dispenser.connection.close();
+		await expect(inFlight).rejects.toBeInstanceOf(PortClosedError);
+		expect(Date.now() - started).toBeLessThan(1000);
+		expect(await disconnected).toBeInstanceOf(PortClosedError);
+		expect(dispenser.isConnected).toBe(false);
+		expect((await dispenser.readNormalizedStatus()).state).toBe(DispenserState.Offline);
+
+		await reconnected;
+		expect(openConnection).toHaveBeenCalledTimes(1);
+		expect(dispenser.isConnected).toBe(true);
+		expect(await dispenser.execute(dispenser.totalizer, dispenser.processTotalizer)).toBe(1000);
+	});
+
+	it('should retry until the port comes back', async () => {
+		openConnection.mockRejectedValueOnce(new Error('Port not found'));
+		const reconnected = new Promise((resolve) => dispenser.once('reconnected', resolve));
+
+		dispenser.connection.close();
+		await reconnected;
+		expect(openConnection).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not reopen after disconnect()', async () => {
+		await new Promise((resolve) => dispenser.disconnect(resolve));
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(openConnection).not.toHaveBeenCalled();
+	});
+});
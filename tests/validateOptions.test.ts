@@ -0,0 +1,113 @@
+import { createDispenser, OptionsValidationError, validateDispenserOptions, validateRfidOptions } from '../main';
+import { GpioOptions } from '../dispenser/interface/IGpio';
+import { getConfigFromEnv } from '../utils/envParser';
+
+describe('options validation', () => {
+	it('should accept a complete configuration', () => {
+		expect(
+			validateDispenserOptions({
+				dispenserType: 'TCS3000',
+				hardwareId: '0403',
+				attributeId: '6001',
+				baudRate: 9600,
+				tcsProductId: 1015,
+				printer: { printerType: 'ESCPOS', hardwareId: '067b', attributeId: '2303' },
+			})
+		).toEqual([]);
+	});
+
+	it('should report every problem at once', () => {
+		const problems = validateDispenserOptions({
+			dispenserType: 'GateX',
+			hardwareId: '',
+			attributeId: '6001',
+			baudRate: 0,
+			tcsProductId: NaN,
+			kFactor: -1,
+			modbus: { timeout: 1000, deviceId: 300, overflowRegister: 8, pulseRegister: 10, debug: false },
+		});
+
+		expect(problems).toEqual([
+			'hardwareId: is required',
+			'baudRate: expected one of 1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, got 0',
+			'tcsProductId: expected an integer between 1001 and 9998, got NaN',
+			'kFactor: expected a number > 0, got -1',
+			'printer: is required for GateX',
+			'modbus.deviceId: expected an integer between 1 and 247, got 300',
+		]);
+	});
+
+	it('should skip the USB ids for a tcp transport', () => {
+		expect(
+			validateDispenserOptions({
+				dispenserType: 'Tokhiem',
+				hardwareId: '',
+				attributeId: '',
+				transport: { type: 'tcp', host: '', port: 70000 },
+			})
+		).toEqual(['transport.host: is required', 'transport.port: expected an integer between 1 and 65535, got 70000']);
+	});
+
+	it('should check the Tokhiem pump address', () => {
+		const options = { dispenserType: 'Tokhiem', hardwareId: '0403', attributeId: '6001' };
+		expect(validateDispenserOptions({ ...options, pumpAddress: 'B' })).toEqual([]);
+		expect(validateDispenserOptions({ ...options, pumpAddress: '0' })).toEqual(['pumpAddress: expected a pump letter A-Z or number 1-26, got "0"']);
+	});
+
+	it('should check the GPIO pins', () => {
+		const options = { dispenserType: 'VeederEmr4', hardwareId: '0403', attributeId: '6001' };
+		expect(validateDispenserOptions({ ...options, gpio: { chip: 'gpiochip4', pins: { pump: 17 } } })).toEqual([]);
+		expect(validateDispenserOptions({ ...options, gpio: { backend: 'pinctrl' as unknown as GpioOptions['backend'], pins: { pump: -1 } } })).toEqual([
+			'gpio.backend: expected one of chardev, sysfs, mock, got pinctrl',
+			'gpio.pins.pump: expected an integer between 0 and 1023, got -1',
+		]);
+	});
+
+	it('should check the Veeder and Neogi options', () => {
+		const options = { hardwareId: '0403', attributeId: '6001' };
+		expect(validateDispenserOptions({ ...options, dispenserType: 'VeederEmr4', ticketPrinter: true, atc: false })).toEqual([]);
+		expect(validateDispenserOptions({ ...options, dispenserType: 'VeederEmr4', atc: 'yes' as unknown as boolean })).toEqual([
+			'atc: expected true or false, got yes',
+		]);
+		expect(validateDispenserOptions({ ...options, dispenserType: 'Neogi', gpio: { pins: { nozzle: 5 } } })).toEqual([]);
+		expect(validateDispenserOptions({ ...options, dispenserType: 'Neogi', gpio: { pins: { pump: 22 } } })).toEqual([
+			'gpio.pins.pump: not used by Neogi, it only reads or drives gpio.pins.nozzle',
+		]);
+	});
+
+	it('should flag an empty env configuration', () => {
+		const problems = validateDispenserOptions(getConfigFromEnv());
+		expect(problems).toContain('dispenserType: is required');
+		expect(problems).not.toContainEqual(expect.stringMatching(/^baudRate/));
+	});
+
+	it('should accept the pin set in the env and ignore the ones left out', () => {
+		const env = { ...process.env };
+		process.env.VITE_MAIN_DISPENSER_HARDWARE_ID = '0403';
+		process.env.VITE_MAIN_DISPENSER_ATTRIBUTE_ID = '6001';
+		try {
+			process.env.VITE_MAIN_DISPENSER_TYPE = 'VeederEmr4';
+			process.env.VITE_MAIN_DISPENSER_PUMP_PIN = '22';
+			expect(validateDispenserOptions(getConfigFromEnv())).toEqual([]);
+
+			process.env.VITE_MAIN_DISPENSER_TYPE = 'Neogi';
+			delete process.env.VITE_MAIN_DISPENSER_PUMP_PIN;
+			process.env.VITE_MAIN_DISPENSER_NOZZLE_PIN = '5';
+			expect(validateDispenserOptions(getConfigFromEnv())).toEqual([]);
+		} finally {
+			process.env = env;
+		}
+	});
+
+	it('should validate rfid options', () => {
+		expect(validateRfidOptions({ rfidType: 'Unknown', hardwareId: '0403', attributeId: '6001', baudRate: 19200 })).toEqual([
+			'rfidType: unknown type "Unknown", expected one of PETROPOINTHECTRONICS',
+		]);
+	});
+
+	it('should throw before opening any port', async () => {
+		const create = createDispenser({ dispenserType: 'Unknown', hardwareId: '', attributeId: '' });
+		await expect(create).rejects.toBeInstanceOf(OptionsValidationError);
+		await expect(create).rejects.toThrow('dispenserType: unknown type "Unknown"');
+	});
+});
@@ -0,0 +1,38 @@
+import { firstValueFrom, take, toArray } from 'rxjs';
+import { watchDispenser } from '../dispenser/workflows/watchDispenser';
+import { createNormalizedStatus, DispenserState } from '../dispenser/interface/DispenserState';
+
+function createFakeDispenser(volumes: number[]) {
+	let tick = 0;
+	const dispenser: any = {
+		execute: async (callee: any, bindFunction?: any, calleeArgs?: any) => {
+			const data = await callee.call(dispenser, calleeArgs);
+			return bindFunction ? bindFunction.call(dispenser, data, calleeArgs, callee.name) : data;
+		},
+		readNormalizedStatus: jest.fn(async () => createNormalizedStatus(DispenserState.Dispensing, 'DISP')),
+		readSale: async () => volumes[Math.min(tick++, volumes.length - 1)],
+		isOrderComplete: (res: number) => ({ status: false, dispensedQty: res, currentFlowRate: 30 }),
+		totalizer: async () => 1000,
+		processTotalizer: (res: number) => res,
+	};
+	return dispenser;
+}
+
+describe('watchDispenser', () => {
+	it('should stream readings and drop unchanged ones', async () => {
+		const dispenser = createFakeDispenser([1, 1, 2, 2, 3]);
+		const readings = await firstValueFrom(watchDispenser(dispenser, { intervalMs: 1 }).pipe(take(3), toArray()));
+
+		expect(readings.map((reading) => reading.dispensedQty)).toEqual([1, 2, 3]);
+		expect(readings[0]).toMatchObject({ state: DispenserState.Dispensing, flowRate: 30, totalizer: 1000 });
+	});
+
+	it('should keep polling after a failed reading', async () => {
+		const dispenser = createFakeDispenser([5]);
+		dispenser.readNormalizedStatus.mockRejectedValueOnce(new Error('Port is not open'));
+		const reading = await firstValueFrom(watchDispenser(dispenser, { intervalMs: 1 }));
+
+		expect(reading.dispensedQty).toBe(5);
+		expect(dispenser.readNormalizedStatus).toHaveBeenCalledTimes(2);
+	});
+});
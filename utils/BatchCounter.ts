@@ -0,0 +1,87 @@
+import debug from 'debug';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const debugLog = debug('dispenser:batch-counter');
+
+// batchNumber for a counter without key, batchNumbers by key for pumps sharing the file
+type BatchFile = { batchNumber?: number; batchNumbers?: { [key: string]: number } };
+
+/**
+ * Number of completed sales for dispensers without a batch register.
+ * Kept in a JSON file when one is given so the count survives restarts, in memory otherwise.
+ * Pumps sharing a file each keep their own count under their key.
+ */
+export class BatchCounter {
+	private count = 0;
+
+	/**
+	 * @param file JSON file holding the count
+	 * @param key pump the count belongs to, for several pumps on one bus with the same batchFile
+	 */
+	constructor(
+		private readonly file?: string,
+		private readonly key?: string
+	) {
+		if (!file) return;
+
+		try {
+			const data = this.load();
+			// a file written before counts were keyed holds a single one, it seeds every pump
+			const batchNumber = key === undefined ? data.batchNumber : (data.batchNumbers?.[key] ?? data.batchNumber);
+			if (typeof batchNumber === 'number' && Number.isInteger(batchNumber) && batchNumber >= 0) this.count = batchNumber;
+			debugLog('loaded %d from %s', this.count, file);
+		} catch (error) {
+			debugLog('failed to load %s: %O', file, error);
+		}
+	}
+
+	/**
+	 * batch number of the last completed sale
+	 */
+	get current(): number {
+		return this.count;
+	}
+
+	/**
+	 * Count a completed sale.
+	 * @returns its batch number
+	 */
+	increment(): number {
+		this.count++;
+		this.save();
+		return this.count;
+	}
+
+	private load(): BatchFile {
+		if (!this.file || !fs.existsSync(this.file)) return {};
+		return JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+	}
+
+	private save() {
+		if (!this.file) return;
+
+		try {
+			// read again before writing, the other pumps on the file keep their counts
+			let data: BatchFile = {};
+			try {
+				data = this.load();
+			} catch (error) {
+				debugLog('dropping unreadable %s: %O', this.file, error);
+			}
+			if (this.key === undefined) {
+				data.batchNumber = this.count;
+			} else {
+				data.batchNumbers = { ...data.batchNumbers, [this.key]: this.count };
+			}
+
+			// write then rename, a power cut never leaves half a file behind
+			const temp = `${this.file}.tmp`;
+			fs.mkdirSync(path.dirname(this.file), { recursive: true });
+			fs.writeFileSync(temp, JSON.stringify(data));
+			fs.renameSync(temp, this.file);
+		} catch (error) {
+			debugLog('failed to save %s: %O', this.file, error);
+		}
+	}
+}
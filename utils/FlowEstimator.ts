@@ -0,0 +1,68 @@
+import debug from 'debug';
+
+const debugLog = debug('dispenser:flow-estimator');
+
+type FlowSample = {
+	volume: number;
+	timestamp: number;
+};
+
+/**
+ * Flow rate in L/min derived from timestamped sale volumes, for dispensers that do not report it.
+ * A volume lower than the last one starts a new sale.
+ */
+export class FlowEstimator {
+	private start?: FlowSample; // last sample before the volume started to move
+	private previous?: FlowSample;
+	private last?: FlowSample;
+
+	/**
+	 * @param volume litres dispensed in the open sale
+	 * @param timestamp ms, defaults to now
+	 */
+	addSample(volume: number, timestamp: number = Date.now()) {
+		if (!Number.isFinite(volume)) return;
+		if (this.last && (volume < this.last.volume || timestamp < this.last.timestamp)) this.reset();
+
+		const sample = { volume, timestamp };
+		if (!this.start || this.start.volume === volume) this.start = sample;
+		if (this.last && this.last.timestamp === timestamp) {
+			this.last = sample;
+			return;
+		}
+		this.previous = this.last;
+		this.last = sample;
+	}
+
+	/**
+	 * volume of the last sample, 0 before the first one
+	 */
+	get volume(): number {
+		return this.last?.volume || 0;
+	}
+
+	/**
+	 * L/min between the last two samples.
+	 */
+	currentFlowRate(): number {
+		return this.rate(this.previous, this.last);
+	}
+
+	/**
+	 * L/min since the volume started to move.
+	 */
+	averageFlowRate(): number {
+		return this.rate(this.start, this.last);
+	}
+
+	reset() {
+		debugLog('reset at %d', this.volume);
+		this.start = this.previous = this.last = undefined;
+	}
+
+	private rate(from?: FlowSample, to?: FlowSample): number {
+		if (!from || !to || to.timestamp <= from.timestamp) return 0;
+		const litresPerMinute = ((to.volume - from.volume) / (to.timestamp - from.timestamp)) * 60000;
+		return Math.round(litresPerMinute * 100) / 100;
+	}
+}
@@ -0,0 +1,81 @@
+import debug from 'debug';
+import { DispenserOptions, IDispenser } from '../dispenser/interface/IDispenser';
+import { TransportOptions } from '../dispenser/interface/ITransport';
+import { IRfid, RfidOptions } from '../rfid/interface/IRfid';
+
+const debugLog = debug('dispenser:driver-registry');
+
+export type DriverKind = 'dispenser' | 'rfid';
+
+export type DriverCapabilities = {
+	transports: TransportOptions['type'][]; // links the driver can talk over
+	requiresPrinter?: boolean; // options.printer must point at a receipt printer port
+	validateOptions?: (options: DispenserOptions) => string[]; // driver specific checks, one problem per entry
+	[capability: string]: any;
+};
+
+export type DispenserDriverFactory = (options: DispenserOptions) => IDispenser | Promise<IDispenser>;
+export type RfidDriverFactory = (options: RfidOptions) => IRfid | Promise<IRfid>;
+
+export type DriverInfo = {
+	name: string;
+	kind: DriverKind;
+	capabilities: DriverCapabilities;
+};
+
+type Registration<F> = {
+	factory: F;
+	capabilities: DriverCapabilities;
+};
+
+const dispenserDrivers = new Map<string, Registration<DispenserDriverFactory>>();
+const rfidDrivers = new Map<string, Registration<RfidDriverFactory>>();
+
+/**
+ * Make a dispenser type available to createDispenser.
+ * @param name value of DispenserOptions.dispenserType
+ * @param factory builds the driver, usually with createTransport(options)
+ * @param capabilities what the driver needs and supports
+ */
+export function registerDispenserDriver(
+	name: string,
+	factory: DispenserDriverFactory,
+	capabilities: DriverCapabilities = { transports: ['serial', 'tcp'] }
+) {
+	if (dispenserDrivers.has(name)) throw new Error(`Dispenser driver already registered: ${name}`);
+	debugLog('registerDispenserDriver: %s %o', name, capabilities);
+	dispenserDrivers.set(name, { factory, capabilities });
+}
+
+/**
+ * Make an rfid reader type available to createRfid.
+ * @param name value of RfidOptions.rfidType
+ */
+export function registerRfidDriver(name: string, factory: RfidDriverFactory, capabilities: DriverCapabilities = { transports: ['serial'] }) {
+	if (rfidDrivers.has(name)) throw new Error(`Rfid driver already registered: ${name}`);
+	debugLog('registerRfidDriver: %s %o', name, capabilities);
+	rfidDrivers.set(name, { factory, capabilities });
+}
+
+export function getDispenserDriver(name: string): Registration<DispenserDriverFactory> {
+	const driver = dispenserDrivers.get(name);
+	if (!driver) throw new Error('Invalid dispenser type');
+	return driver;
+}
+
+export function getRfidDriver(name: string): Registration<RfidDriverFactory> {
+	const driver = rfidDrivers.get(name);
+	if (!driver) throw new Error('Invalid rfid type');
+	return driver;
+}
+
+export function listDrivers(kind?: DriverKind): DriverInfo[] {
+	const drivers: DriverInfo[] = [];
+	if (!kind || kind === 'dispenser') {
+		dispenserDrivers.forEach(({ capabilities }, name) => drivers.push({ name, kind: 'dispenser', capabilities }));
+	}
+	if (!kind || kind === 'rfid') {
+		rfidDrivers.forEach(({ capabilities }, name) => drivers.push({ name, kind: 'rfid', capabilities }));
+	}
+	return drivers;
+}
@@ -1,21 +1,51 @@
 import { DispenserOptions, RfidOptions } from '../main';
+import { GpioOptions } from '../dispenser/interface/IGpio';
 
 export function getConfigFromEnv() {
 	const dispenserConfig: DispenserOptions = {
 		dispenserType: process.env.VITE_MAIN_DISPENSER_TYPE || '',
 		hardwareId: process.env.VITE_MAIN_DISPENSER_HARDWARE_ID || '',
 		attributeId: process.env.VITE_MAIN_DISPENSER_ATTRIBUTE_ID || '',
-		baudRate: parseInt(process.env.VITE_MAIN_DISPENSER_BAUD_RATE || '0'), // Parse as integer
 		totalizerFile: process.env.VITE_MAIN_DISPENSER_TOTALIZER_FILE || 'totalizer.json',
+		batchFile: process.env.VITE_MAIN_DISPENSER_BATCH_FILE || 'batch.json',
 		interByteTimeoutInterval: parseInt(process.env.VITE_MAIN_DISPENSER_INTERVAL || '300'),
 		tcsProductId: parseInt(process.env.VITE_TCS_PROD_ID || '1015'),
 	};
 
+	if (process.env.VITE_MAIN_DISPENSER_BAUD_RATE) {
+		dispenserConfig.baudRate = parseInt(process.env.VITE_MAIN_DISPENSER_BAUD_RATE);
+	}
+
 	// Optionally, you can add more properties to the object if they exist in the environment variables
 	if (process.env.VITE_MAIN_DISPENSER_K_FACTOR) {
 		dispenserConfig.kFactor = Number(process.env.VITE_MAIN_DISPENSER_K_FACTOR);
 	}
 
+	if (process.env.VITE_MAIN_DISPENSER_TCP_HOST) {
+		dispenserConfig.transport = {
+			type: 'tcp',
+			host: process.env.VITE_MAIN_DISPENSER_TCP_HOST,
+			port: parseInt(process.env.VITE_MAIN_DISPENSER_TCP_PORT || '4001'),
+		};
+	}
+
+	const pins = {
+		pump: process.env.VITE_MAIN_DISPENSER_PUMP_PIN,
+		authorization: process.env.VITE_MAIN_DISPENSER_AUTHORIZATION_PIN,
+		nozzle: process.env.VITE_MAIN_DISPENSER_NOZZLE_PIN,
+	};
+	if (process.env.VITE_MAIN_GPIO_BACKEND || process.env.VITE_MAIN_GPIO_CHIP || Object.values(pins).some(Boolean)) {
+		dispenserConfig.gpio = {
+			backend: (process.env.VITE_MAIN_GPIO_BACKEND as GpioOptions['backend']) || undefined,
+			chip: process.env.VITE_MAIN_GPIO_CHIP || undefined,
+			pins: {
+				pump: pins.pump ? parseInt(pins.pump) : undefined,
+				authorization: pins.authorization ? parseInt(pins.authorization) : undefined,
+				nozzle: pins.nozzle ? parseInt(pins.nozzle) : undefined,
+			},
+		};
+	}
+
 	if (process.env.VITE_MAIN_PRINTER_TYPE) {
 		dispenserConfig.printer = {
 			printerType: process.env.VITE_MAIN_PRINTER_TYPE,
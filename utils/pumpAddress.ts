@@ -0,0 +1,23 @@
+/**
+ * Address byte of a Tokhiem pump on the RS-485 bus.
+ * Pumps are lettered, 'A' is pump 1, so both "B" and "2" address the second pump.
+ * @param pumpAddress DispenserOptions.pumpAddress, defaults to pump 1
+ * @returns the address byte, NaN when pumpAddress is not a pump letter or number
+ */
+export function parseTokhiemAddress(pumpAddress: string = '1'): number {
+	const address = pumpAddress.trim().toUpperCase();
+	if (/^[A-Z]$/.test(address)) return address.charCodeAt(0);
+	if (/^\d{1,2}$/.test(address) && +address >= 1 && +address <= 26) return 0x40 + +address;
+	return NaN;
+}
+
+/**
+ * Device address of an Isoil Vega-T, sent as three digits in every frame.
+ * @param pumpAddress DispenserOptions.pumpAddress, defaults to unit 1
+ * @returns the address, NaN when pumpAddress is not a number from 1 to 999
+ */
+export function parseIsoilAddress(pumpAddress: string = '1'): number {
+	const address = pumpAddress.trim();
+	if (/^\d{1,3}$/.test(address) && +address >= 1) return +address;
+	return NaN;
+}
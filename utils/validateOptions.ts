@@ -0,0 +1,192 @@
+import { DispenserOptions, ModbusOptions, PrinterOptions } from '../dispenser/interface/IDispenser';
+import { TransportOptions } from '../dispenser/interface/ITransport';
+import { GpioOptions } from '../dispenser/interface/IGpio';
+import { RfidOptions } from '../rfid/interface/IRfid';
+import { PubSubConfig } from './PubSubLogger';
+import { listDrivers } from './driverRegistry';
+
+export const BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200];
+
+/**
+ * Thrown with every problem found in the options, one per line.
+ */
+export class OptionsValidationError extends Error {
+	readonly problems: string[];
+
+	constructor(subject: string, problems: string[]) {
+		super(`Invalid ${subject} options:\n${problems.map((problem) => ` - ${problem}`).join('\n')}`);
+		this.name = 'OptionsValidationError';
+		this.problems = problems;
+	}
+}
+
+type Problems = string[];
+
+function requireString(problems: Problems, field: string, value: unknown) {
+	if (typeof value !== 'string' || value.trim() === '') problems.push(`${field}: is required`);
+}
+
+function checkUsbId(problems: Problems, field: string, value: unknown) {
+	if (typeof value !== 'string' || value.trim() === '') {
+		problems.push(`${field}: is required`);
+	} else if (!/^[0-9a-fA-F]{4}$/.test(value)) {
+		problems.push(`${field}: expected a 4 digit hex USB id, got "${value}"`);
+	}
+}
+
+function checkBaudRate(problems: Problems, field: string, value: unknown) {
+	if (value === undefined) return;
+	if (!BAUD_RATES.includes(value as number)) problems.push(`${field}: expected one of ${BAUD_RATES.join(', ')}, got ${value}`);
+}
+
+function checkInteger(problems: Problems, field: string, value: unknown, min: number, max: number = Number.MAX_SAFE_INTEGER) {
+	if (value === undefined) return;
+	if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+		problems.push(`${field}: expected an integer between ${min} and ${max}, got ${value}`);
+	}
+}
+
+function checkPositive(problems: Problems, field: string, value: unknown) {
+	if (value === undefined) return;
+	if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) problems.push(`${field}: expected a number > 0, got ${value}`);
+}
+
+export function validateTransportOptions(transport: TransportOptions, prefix = 'transport'): string[] {
+	const problems: Problems = [];
+	if (transport.type === 'tcp') {
+		requireString(problems, `${prefix}.host`, transport.host);
+		checkInteger(problems, `${prefix}.port`, transport.port ?? NaN, 1, 65535);
+		checkPositive(problems, `${prefix}.connectTimeoutMs`, transport.connectTimeoutMs);
+		checkPositive(problems, `${prefix}.reconnectIntervalMs`, transport.reconnectIntervalMs);
+		checkPositive(problems, `${prefix}.maxReconnectIntervalMs`, transport.maxReconnectIntervalMs);
+	} else if (transport.type === 'serial') {
+		if (transport.path !== undefined) requireString(problems, `${prefix}.path`, transport.path);
+		checkBaudRate(problems, `${prefix}.baudRate`, transport.baudRate);
+	} else {
+		problems.push(`${prefix}.type: expected "serial" or "tcp", got ${(transport as { type?: unknown }).type}`);
+	}
+	return problems;
+}
+
+export function validatePrinterOptions(printer: PrinterOptions, prefix = 'printer'): string[] {
+	const problems: Problems = [];
+	requireString(problems, `${prefix}.printerType`, printer.printerType);
+	checkUsbId(problems, `${prefix}.hardwareId`, printer.hardwareId);
+	checkUsbId(problems, `${prefix}.attributeId`, printer.attributeId);
+	checkBaudRate(problems, `${prefix}.baudRate`, printer.baudRate);
+	return problems;
+}
+
+export function validateModbusOptions(modbus: ModbusOptions, prefix = 'modbus'): string[] {
+	const problems: Problems = [];
+	checkPositive(problems, `${prefix}.timeout`, modbus.timeout);
+	checkInteger(problems, `${prefix}.deviceId`, modbus.deviceId, 1, 247);
+	checkInteger(problems, `${prefix}.overflowRegister`, modbus.overflowRegister, 0, 65535);
+	checkInteger(problems, `${prefix}.pulseRegister`, modbus.pulseRegister, 0, 65535);
+	return problems;
+}
+
+export function validateGpioOptions(gpio: GpioOptions, prefix = 'gpio'): string[] {
+	const problems: Problems = [];
+	const backends = ['chardev', 'sysfs', 'mock'];
+	if (gpio.backend !== undefined && !backends.includes(gpio.backend)) {
+		problems.push(`${prefix}.backend: expected one of ${backends.join(', ')}, got ${gpio.backend}`);
+	}
+	if (gpio.chip !== undefined) requireString(problems, `${prefix}.chip`, gpio.chip);
+	checkInteger(problems, `${prefix}.sysfsBase`, gpio.sysfsBase, 0);
+	Object.entries(gpio.pins || {}).forEach(([name, pin]) => checkInteger(problems, `${prefix}.pins.${name}`, pin, 0, 1023));
+	return problems;
+}
+
+export function validatePubSubConfig(config: PubSubConfig, prefix = 'pubsubConfig'): string[] {
+	const problems: Problems = [];
+	if (config.enabled === false) return problems;
+	requireString(problems, `${prefix}.topicName`, config.topicName);
+	checkInteger(problems, `${prefix}.maxCacheSize`, config.maxCacheSize, 1);
+	checkInteger(problems, `${prefix}.retryIntervalMs`, config.retryIntervalMs, 1);
+	checkInteger(problems, `${prefix}.batchSize`, config.batchSize, 1);
+	return problems;
+}
+
+/**
+ * Checks dispenser options against the registered driver, returns every problem found.
+ */
+export function validateDispenserOptions(options: DispenserOptions): string[] {
+	const problems: Problems = [];
+	const driver = listDrivers('dispenser').find(({ name }) => name === options.dispenserType);
+
+	if (!options.dispenserType) {
+		problems.push('dispenserType: is required');
+	} else if (!driver) {
+		const names = listDrivers('dispenser').map(({ name }) => name);
+		problems.push(`dispenserType: unknown type "${options.dispenserType}", expected one of ${names.join(', ')}`);
+	}
+
+	// the USB ids are only used to find the port
+	const transport = options.transport;
+	if (!transport || (transport.type === 'serial' && !transport.path)) {
+		checkUsbId(problems, 'hardwareId', options.hardwareId);
+		checkUsbId(problems, 'attributeId', options.attributeId);
+	}
+	if (transport) {
+		problems.push(...validateTransportOptions(transport));
+		if (driver && !driver.capabilities.transports.includes(transport.type)) {
+			problems.push(`transport.type: ${options.dispenserType} does not support the ${transport.type} transport`);
+		}
+	}
+
+	checkBaudRate(problems, 'baudRate', options.baudRate);
+	checkInteger(problems, 'tcsProductId', options.tcsProductId, 1001, 9998);
+	checkPositive(problems, 'kFactor', options.kFactor);
+	checkPositive(problems, 'interByteTimeoutInterval', options.interByteTimeoutInterval);
+	checkPositive(problems, 'commandTimeoutMs', options.commandTimeoutMs);
+	Object.entries(options.retryPolicy || {}).forEach(([commandClass, policy]) => {
+		if (commandClass !== 'read' && commandClass !== 'write') problems.push(`retryPolicy.${commandClass}: expected read or write`);
+		checkInteger(problems, `retryPolicy.${commandClass}.retries`, policy?.retries, 0, 10);
+		checkInteger(problems, `retryPolicy.${commandClass}.backoffMs`, policy?.backoffMs, 0);
+		checkInteger(problems, `retryPolicy.${commandClass}.maxBackoffMs`, policy?.maxBackoffMs, 0);
+	});
+	checkPositive(problems, 'reconnectIntervalMs', options.reconnectIntervalMs);
+	checkPositive(problems, 'maxReconnectIntervalMs', options.maxReconnectIntervalMs);
+	Object.entries(options.commandTimeouts || {}).forEach(([command, timeout]) => checkPositive(problems, `commandTimeouts.${command}`, timeout));
+
+	if (driver?.capabilities.validateOptions) problems.push(...driver.capabilities.validateOptions(options));
+
+	if (options.printer) {
+		problems.push(...validatePrinterOptions(options.printer));
+	} else if (driver?.capabilities.requiresPrinter) {
+		problems.push(`printer: is required for ${options.dispenserType}`);
+	}
+	if (options.modbus) problems.push(...validateModbusOptions(options.modbus));
+	if (options.gpio) problems.push(...validateGpioOptions(options.gpio));
+	if (options.pubsubConfig) problems.push(...validatePubSubConfig(options.pubsubConfig));
+
+	return problems;
+}
+
+export function validateRfidOptions(options: RfidOptions): string[] {
+	const problems: Problems = [];
+	const names = listDrivers('rfid').map(({ name }) => name);
+
+	if (!options.rfidType) {
+		problems.push('rfidType: is required');
+	} else if (!names.includes(options.rfidType)) {
+		problems.push(`rfidType: unknown type "${options.rfidType}", expected one of ${names.join(', ')}`);
+	}
+	checkUsbId(problems, 'hardwareId', options.hardwareId);
+	checkUsbId(problems, 'attributeId', options.attributeId);
+	checkBaudRate(problems, 'baudRate', options.baudRate);
+	checkPositive(problems, 'interByteTimeoutInterval', options.interByteTimeoutInterval);
+
+	return problems;
+}
+
+export function assertValidDispenserOptions(options: DispenserOptions) {
+	const problems = validateDispenserOptions(options);
+	if (problems.length) throw new OptionsValidationError('dispenser', problems);
+}
+
+export function assertValidRfidOptions(options: RfidOptions) {
+	const problems = validateRfidOptions(options);
+	if (problems.length) throw new OptionsValidationError('rfid', problems);
+}